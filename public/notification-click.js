@@ -0,0 +1,10 @@
+// Imported into the generated service worker: tapping a reminder focuses NicTrack, or opens it.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      return client ? client.focus() : self.clients.openWindow('/');
+    })
+  );
+});
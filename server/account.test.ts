@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createAccount, getLogChanges, pushConfig, pushLogs, restoreAccount } from './account';
+import type { SyncChange } from '../src/core/sync';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+
+const change = (id: string, overrides: Partial<SyncChange<unknown>> = {}): SyncChange<unknown> => ({
+  id,
+  baseRev: 0,
+  updatedAt: '2026-03-01T10:00:00.000Z',
+  deleted: false,
+  data: { quantity: 1 },
+  ...overrides,
+});
+
+describe('pushLogs', () => {
+  it('stores new records with a revision and change number', () => {
+    const account = createAccount();
+    const [result] = pushLogs(account, [change('a')], 'phone', now);
+    expect(result.status).toBe('applied');
+    expect(result.record).toMatchObject({ id: 'a', rev: 1, seq: 1, deviceId: 'phone', data: { quantity: 1 } });
+    expect(account.devices.phone).toMatchObject({ changes: 1, lastSeenAt: now.toISOString() });
+  });
+
+  it('keeps deletes as tombstones', () => {
+    const account = createAccount();
+    pushLogs(account, [change('a')], 'phone', now);
+    const [result] = pushLogs(account, [change('a', { baseRev: 1, deleted: true })], 'phone', now);
+    expect(result.record).toMatchObject({ rev: 2, deleted: true, data: null });
+  });
+
+  it('rejects the older of two concurrent edits and returns the winner', () => {
+    const account = createAccount();
+    pushLogs(account, [change('a')], 'phone', now);
+    pushLogs(account, [change('a', { baseRev: 1, updatedAt: '2026-03-01T11:00:00.000Z', data: { quantity: 2 } })], 'phone', now);
+    const [result] = pushLogs(account, [change('a', { baseRev: 1, data: { quantity: 3 } })], 'laptop', now);
+    expect(result.status).toBe('rejected');
+    expect(result.record).toMatchObject({ rev: 2, deviceId: 'phone', data: { quantity: 2 } });
+    expect(account.devices.laptop.changes).toBe(0);
+  });
+
+  it('stores ids that match object prototype keys as ordinary records', () => {
+    const account = createAccount();
+    const results = pushLogs(account, [change('__proto__'), change('constructor')], '__proto__', now);
+    expect(results.map(result => result.status)).toEqual(['applied', 'applied']);
+    expect(getLogChanges(account, 0, 10).logs.map(record => record.id)).toEqual(['__proto__', 'constructor']);
+    expect(account.devices.__proto__).toMatchObject({ changes: 2 });
+
+    const restored = restoreAccount(JSON.parse(JSON.stringify(account)));
+    expect(Object.keys(restored.logs)).toEqual(['__proto__', 'constructor']);
+    const [result] = pushLogs(restored, [change('__proto__', { baseRev: 1, data: { quantity: 2 } })], 'phone', now);
+    expect(result.record).toMatchObject({ id: '__proto__', rev: 2 });
+  });
+});
+
+describe('pushConfig', () => {
+  it('keeps a single config document', () => {
+    const account = createAccount();
+    pushConfig(account, change('ignored'), 'phone', now);
+    const result = pushConfig(account, change('ignored', { baseRev: 1, data: { unit: 'cigs' } }), 'laptop', now);
+    expect(result.record).toMatchObject({ id: 'config', rev: 2, data: { unit: 'cigs' } });
+    expect(account.config).toBe(result.record);
+  });
+});
+
+describe('getLogChanges', () => {
+  const account = createAccount();
+  pushLogs(account, [change('a'), change('b'), change('c')], 'phone', now);
+  pushLogs(account, [change('a', { baseRev: 1, deleted: true })], 'phone', now);
+
+  it('returns records changed after a change number, oldest first', () => {
+    expect(getLogChanges(account, 2, 10)).toMatchObject({ seq: 4, more: false, logs: [{ id: 'c' }, { id: 'a', deleted: true }] });
+  });
+
+  it('pages through long histories', () => {
+    const first = getLogChanges(account, 0, 2);
+    expect(first).toMatchObject({ seq: 3, more: true, logs: [{ id: 'b' }, { id: 'c' }] });
+    expect(getLogChanges(account, first.seq, 2)).toMatchObject({ seq: 4, more: false, logs: [{ id: 'a' }] });
+  });
+});
@@ -0,0 +1,85 @@
+import { SYNC_CONFIG_ID, shouldApplyChange } from '../src/core/sync.js';
+import type { SyncChange, SyncDevice, SyncRecord, SyncResult } from '../src/core/sync.js';
+
+// Everything stored for one token. Records are opaque to the server; only the app reads `data`.
+export interface Account {
+  seq: number; // last change number handed out
+  config: SyncRecord<unknown> | null;
+  logs: Record<string, SyncRecord<unknown>>;
+  devices: Record<string, SyncDevice>;
+}
+
+// Logs and devices are keyed by ids the client chooses, so they have no prototype for an id
+// like "__proto__" to reach, and are only read through getOwn.
+const createIndex = <T>(entries: Record<string, T> = {}): Record<string, T> => Object.assign(Object.create(null), entries);
+
+const getOwn = <T>(index: Record<string, T>, id: string) => Object.hasOwn(index, id) ? index[id] : undefined;
+
+export const createAccount = (): Account => ({ seq: 0, config: null, logs: createIndex(), devices: createIndex() });
+
+// An account as read back from its saved JSON.
+export const restoreAccount = (saved: Account): Account => ({
+  ...saved,
+  logs: createIndex(saved.logs),
+  devices: createIndex(saved.devices),
+});
+
+// Records that a device was seen, and how far it has pulled when `pulledSeq` is given.
+export const touchDevice = (account: Account, deviceId: string, now: Date, pulledSeq?: number) => {
+  const existing = getOwn(account.devices, deviceId);
+  const device: SyncDevice = {
+    id: deviceId,
+    firstSeenAt: existing?.firstSeenAt ?? now.toISOString(),
+    lastSeenAt: now.toISOString(),
+    lastPulledSeq: pulledSeq ?? existing?.lastPulledSeq ?? 0,
+    changes: existing?.changes ?? 0,
+  };
+  account.devices[deviceId] = device;
+  return device;
+};
+
+const applyChange = (account: Account, current: SyncRecord<unknown> | undefined, change: SyncChange<unknown>, deviceId: string, now: Date): SyncResult<unknown> => {
+  const device = touchDevice(account, deviceId, now);
+  if (current && !shouldApplyChange(current, change, deviceId)) {
+    return { status: 'rejected', record: current };
+  }
+  account.seq++;
+  device.changes++;
+  const record: SyncRecord<unknown> = {
+    id: change.id,
+    rev: (current?.rev ?? 0) + 1,
+    seq: account.seq,
+    updatedAt: change.updatedAt,
+    deviceId,
+    deleted: change.deleted,
+    data: change.deleted ? null : change.data,
+  };
+  return { status: 'applied', record };
+};
+
+export const pushLogs = (account: Account, changes: SyncChange<unknown>[], deviceId: string, now: Date): SyncResult<unknown>[] =>
+  changes.map(change => {
+    const result = applyChange(account, getOwn(account.logs, change.id), change, deviceId, now);
+    account.logs[change.id] = result.record;
+    return result;
+  });
+
+export const pushConfig = (account: Account, change: SyncChange<unknown>, deviceId: string, now: Date): SyncResult<unknown> => {
+  const result = applyChange(account, account.config ?? undefined, { ...change, id: SYNC_CONFIG_ID }, deviceId, now);
+  account.config = result.record;
+  return result;
+};
+
+// Log records written after `since`, oldest first. `seq` is where the next page (or next sync) starts.
+export const getLogChanges = (account: Account, since: number, limit: number) => {
+  const changed = Object.values(account.logs)
+    .filter(record => record.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  const page = changed.slice(0, limit);
+  const more = changed.length > limit;
+  return {
+    seq: more ? page[page.length - 1].seq : account.seq,
+    logs: page,
+    more,
+  };
+};
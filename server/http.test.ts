@@ -0,0 +1,72 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createHandler, validateSyncChange } from './http';
+import { createStore } from './store';
+
+const server = createServer(createHandler({ store: createStore(null), tokens: ['secret'], allowedOrigin: '*' }));
+let baseUrl = '';
+
+beforeAll(() => new Promise<void>(resolve => server.listen(0, () => {
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  resolve();
+})));
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const call = (path: string, init: RequestInit = {}, token = 'secret') => fetch(baseUrl + path, {
+  ...init,
+  headers: { Authorization: `Bearer ${token}`, 'X-Device-Id': 'phone', 'Content-Type': 'application/json' },
+});
+
+describe('sync API', () => {
+  it('needs a known token', async () => {
+    expect((await call('/v1/logs', {}, 'wrong')).status).toBe(401);
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+  });
+
+  it('accepts pushed logs and returns them to other devices', async () => {
+    const push = await call('/v1/logs', {
+      method: 'POST',
+      body: JSON.stringify({ changes: [{ id: 'a', baseRev: 0, updatedAt: '2026-03-01T10:00:00Z', deleted: false, data: { quantity: 1 } }] }),
+    });
+    expect(await push.json()).toMatchObject({ seq: 1, results: [{ status: 'applied', record: { id: 'a', rev: 1 } }] });
+
+    const pull = await call('/v1/logs?since=0');
+    expect(await pull.json()).toMatchObject({ seq: 1, more: false, logs: [{ id: 'a', data: { quantity: 1 } }] });
+  });
+
+  it('rejects malformed changes', async () => {
+    const response = await call('/v1/logs', { method: 'POST', body: JSON.stringify({ changes: [{ id: 'a' }] }) });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'change 1: invalid baseRev' });
+  });
+
+  it('rejects ids that match object prototype keys', async () => {
+    const change = { id: '__proto__', baseRev: 0, updatedAt: '2026-03-01T10:00:00Z', deleted: false, data: { quantity: 1 } };
+    const response = await call('/v1/logs', { method: 'POST', body: JSON.stringify({ changes: [change] }) });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'change 1: invalid id' });
+  });
+
+  it('stores the config', async () => {
+    await call('/v1/config', {
+      method: 'PUT',
+      body: JSON.stringify({ id: 'config', baseRev: 0, updatedAt: '2026-03-01T10:00:00Z', deleted: false, data: { unit: 'cigs' } }),
+    });
+    expect(await (await call('/v1/config')).json()).toMatchObject({ config: { rev: 1, data: { unit: 'cigs' } } });
+  });
+});
+
+describe('validateSyncChange', () => {
+  it('needs data unless the record is deleted', () => {
+    expect(validateSyncChange({ id: 'a', baseRev: 1, updatedAt: '2026-03-01T10:00:00Z', deleted: false })).toBe('missing data');
+    expect(validateSyncChange({ id: 'a', baseRev: 1, updatedAt: '2026-03-01T10:00:00Z', deleted: true, data: { quantity: 1 } }))
+      .toMatchObject({ deleted: true, data: null });
+  });
+
+  it('rejects ids that match object prototype keys', () => {
+    for (const id of ['__proto__', 'constructor', 'prototype']) {
+      expect(validateSyncChange({ id, baseRev: 0, updatedAt: '2026-03-01T10:00:00Z', deleted: false, data: {} })).toBe('invalid id');
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { getLogChanges, pushConfig, pushLogs, touchDevice } from './account.js';
+import type { Store } from './store.js';
+import type { SyncChange } from '../src/core/sync.js';
+
+// Large enough for a first upload of several years of history in one request.
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const DEFAULT_PAGE_SIZE = 1000;
+const MAX_ID_LENGTH = 100;
+// Never valid as ids, as they name built-in properties of every JavaScript object.
+const RESERVED_IDS = ['__proto__', 'constructor', 'prototype'];
+
+export interface ServerOptions {
+  store: Store;
+  tokens: string[]; // each token is its own account
+  allowedOrigin: string; // for CORS; '*' allows any
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Tokens are only kept hashed, and the hash doubles as the account's file name.
+export const getAccountId = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH && !RESERVED_IDS.includes(value);
+
+const isRevision = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+export const validateSyncChange = (raw: unknown): SyncChange<unknown> | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (!isId(raw.id)) return 'invalid id';
+  if (!isRevision(raw.baseRev)) return 'invalid baseRev';
+  if (typeof raw.updatedAt !== 'string' || isNaN(new Date(raw.updatedAt).getTime())) return 'invalid updatedAt';
+  if (typeof raw.deleted !== 'boolean') return 'invalid deleted flag';
+  if (!raw.deleted && !isRecord(raw.data)) return 'missing data';
+  return {
+    id: raw.id,
+    baseRev: raw.baseRev,
+    updatedAt: new Date(raw.updatedAt).toISOString(),
+    deleted: raw.deleted,
+    data: raw.deleted ? null : raw.data,
+  };
+};
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as unknown;
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+const parseChange = (raw: unknown, label: string) => {
+  const change = validateSyncChange(raw);
+  if (typeof change === 'string') throw new HttpError(400, `${label}: ${change}`);
+  return change;
+};
+
+const parseCount = (value: string | null, fallback: number) => {
+  if (value === null) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) throw new HttpError(400, 'Invalid number in query');
+  return count;
+};
+
+// Handles the REST API:
+//   GET  /health                          no auth
+//   GET  /v1/config                       { config: SyncRecord | null }
+//   PUT  /v1/config                       SyncChange -> SyncResult
+//   GET  /v1/logs?since=<seq>&limit=<n>   { seq, logs: SyncRecord[], more }
+//   POST /v1/logs                         { changes: SyncChange[] } -> { seq, results: SyncResult[] }
+//   GET  /v1/devices                      { devices: SyncDevice[] }
+// Every /v1 request needs `Authorization: Bearer <token>` and an `X-Device-Id` header.
+export const createHandler = ({ store, tokens, allowedOrigin }: ServerOptions) => {
+  const accountIds = new Set(tokens.map(getAccountId));
+
+  const route = async (req: IncomingMessage, url: URL) => {
+    if (req.method === 'GET' && url.pathname === '/health') return { ok: true };
+
+    const token = /^Bearer (.+)$/.exec(req.headers.authorization || '')?.[1];
+    const accountId = token && getAccountId(token);
+    if (!accountId || !accountIds.has(accountId)) throw new HttpError(401, 'Missing or unknown token');
+    const deviceId = req.headers['x-device-id'];
+    if (!isId(deviceId)) throw new HttpError(400, 'Missing X-Device-Id header');
+    const now = new Date();
+
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /v1/config':
+        return store.withAccount(accountId, account => {
+          touchDevice(account, deviceId, now);
+          return { config: account.config };
+        });
+      case 'PUT /v1/config': {
+        const change = parseChange(await readBody(req), 'config');
+        return store.withAccount(accountId, account => pushConfig(account, change, deviceId, now));
+      }
+      case 'GET /v1/logs': {
+        const since = parseCount(url.searchParams.get('since'), 0);
+        const limit = Math.max(1, parseCount(url.searchParams.get('limit'), DEFAULT_PAGE_SIZE));
+        return store.withAccount(accountId, account => {
+          const page = getLogChanges(account, since, limit);
+          touchDevice(account, deviceId, now, page.seq);
+          return page;
+        });
+      }
+      case 'POST /v1/logs': {
+        const body = await readBody(req);
+        if (!isRecord(body) || !Array.isArray(body.changes)) throw new HttpError(400, 'Expected { changes: [...] }');
+        const changes = body.changes.map((raw, index) => parseChange(raw, `change ${index + 1}`));
+        return store.withAccount(accountId, account => {
+          const results = pushLogs(account, changes, deviceId, now);
+          return { seq: account.seq, results };
+        });
+      }
+      case 'GET /v1/devices':
+        return store.withAccount(accountId, account => ({ devices: Object.values(account.devices) }), false);
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Device-Id');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    let status = 200;
+    let body: unknown;
+    try {
+      body = await route(req, new URL(req.url || '/', 'http://localhost'));
+    } catch (e) {
+      if (!(e instanceof HttpError)) console.error('Request failed', e);
+      status = e instanceof HttpError ? e.status : 500;
+      body = { error: e instanceof HttpError ? e.message : 'Internal server error' };
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  };
+};
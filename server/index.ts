@@ -0,0 +1,32 @@
+// NicTrack sync server: an optional, self-hosted backend that lets several devices share one
+// profile's settings and history. The app keeps working offline and syncs when it can reach it.
+//
+//   NICTRACK_SYNC_TOKENS=token1,token2 npm run sync-server
+//
+// Environment:
+//   NICTRACK_SYNC_TOKENS  comma-separated access tokens (required); each token gets its own data
+//   NICTRACK_SYNC_DATA    directory for account files (default ./nictrack-sync-data)
+//   NICTRACK_SYNC_ORIGIN  origin allowed to call the API from a browser (default *)
+//   PORT                  port to listen on (default 8787)
+import { createServer } from 'node:http';
+import { createHandler } from './http.js';
+import { createStore } from './store.js';
+
+const tokens = (process.env.NICTRACK_SYNC_TOKENS || '').split(',').map(t => t.trim()).filter(Boolean);
+if (tokens.length === 0) {
+  console.error('Set NICTRACK_SYNC_TOKENS to one or more comma-separated access tokens.');
+  process.exit(1);
+}
+
+const port = Number(process.env.PORT) || 8787;
+const dataDir = process.env.NICTRACK_SYNC_DATA || 'nictrack-sync-data';
+
+const server = createServer(createHandler({
+  store: createStore(dataDir),
+  tokens,
+  allowedOrigin: process.env.NICTRACK_SYNC_ORIGIN || '*',
+}));
+
+server.listen(port, () => {
+  console.log(`NicTrack sync server listening on port ${port}, storing data in ${dataDir}`);
+});
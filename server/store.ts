@@ -0,0 +1,59 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createAccount, restoreAccount } from './account.js';
+import type { Account } from './account.js';
+
+// Accounts live in memory and are written to one JSON file each in `dataDir`; without a
+// directory (as in tests) nothing is persisted.
+export const createStore = (dataDir: string | null) => {
+  const accounts = new Map<string, Promise<Account>>();
+  const writes = new Map<string, Promise<void>>();
+
+  const read = async (accountId: string): Promise<Account> => {
+    if (!dataDir) return createAccount();
+    try {
+      return restoreAccount(JSON.parse(await readFile(join(dataDir, `${accountId}.json`), 'utf8')));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return createAccount();
+      throw e;
+    }
+  };
+
+  // Writes go to a temporary file first so a crash mid-write can't leave a truncated account.
+  const write = async (accountId: string, account: Account) => {
+    if (!dataDir) return;
+    await mkdir(dataDir, { recursive: true });
+    const file = join(dataDir, `${accountId}.json`);
+    await writeFile(`${file}.tmp`, JSON.stringify(account));
+    await rename(`${file}.tmp`, file);
+  };
+
+  const load = (accountId: string) => {
+    let account = accounts.get(accountId);
+    if (!account) {
+      account = read(accountId);
+      accounts.set(accountId, account);
+      account.catch(() => accounts.delete(accountId));
+    }
+    return account;
+  };
+
+  // Runs `update` on the account, then saves it when `persist` is set. Updates are synchronous,
+  // so requests for one account never interleave; saves are queued behind each other.
+  const withAccount = async <T>(accountId: string, update: (account: Account) => T, persist = true): Promise<T> => {
+    const account = await load(accountId);
+    const result = update(account);
+    if (persist) {
+      const saved = (writes.get(accountId) || Promise.resolve())
+        .catch(() => {})
+        .then(() => write(accountId, account));
+      writes.set(accountId, saved);
+      await saved;
+    }
+    return result;
+  };
+
+  return { withAccount };
+};
+
+export type Store = ReturnType<typeof createStore>;
@@ -1,15 +1,41 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Analytics } from '@vercel/analytics/react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
 import { 
   PlusCircle, 
   History, 
   BarChart3, 
   Settings, 
   Trash2,
-  AlertCircle
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  Pencil,
+  Check,
+  X,
+  Undo2,
+  Redo2,
+  Activity,
+  Target,
+  Package,
+  Download,
+  Upload,
+  RefreshCw,
+  Flame,
+  Brain,
+  Trophy,
+  Wallet,
+  CalendarDays,
+  Bell,
+  Lock,
+  Users,
+  TrendingUp,
+  Lightbulb,
+  FileText,
+  Printer,
+  Cloud
 } from 'lucide-react';
 import { 
-  BarChart, 
   Bar, 
   XAxis, 
   YAxis, 
@@ -17,82 +43,603 @@ import {
   Tooltip, 
   ResponsiveContainer,
   Legend,
-  Cell
+  Cell,
+  AreaChart,
+  Area,
+  ComposedChart,
+  Line
 } from 'recharts';
 import { 
   format, 
-  startOfDay, 
   subDays, 
   isSameDay, 
   eachDayOfInterval,
-  addHours
+  addDays,
+  addHours,
+  addWeeks,
+  startOfWeek,
+  subWeeks,
+  eachWeekOfInterval
 } from 'date-fns';
+import {
+  ABSORPTION_PRESETS,
+  CRAVING_TRIGGER_LABELS,
+  DAILY_LIMIT_MG,
+  DAY_START_HOUR,
+  DEFAULT_ABSORPTION_MODEL,
+  DEFAULT_PUFFS_PER_ML,
+  DELIVERY_LABELS,
+  NICOTINE_HALF_LIFE_HOURS,
+  NICOTINE_TYPES,
+  ProgressReport,
+  REPORT_DISCLAIMER,
+  VAPE_ABSORPTION_RATES,
+  addProductToLibrary,
+  analyzeCravings,
+  analyzeRecentIntake,
+  applyImport,
+  applyModelToProducts,
+  applyRecordChange,
+  buildProgressReport,
+  commitHistory,
+  createBackup,
+  createDoseEvent,
+  createHistory,
+  createProduct,
+  diffRecords,
+  estimateDailyMg,
+  excludeRecordChange,
+  formatMoney,
+  formatUtcOffset,
+  fromLocalTime,
+  getAbsorbedMg,
+  getBaselineWeekMg,
+  getCadenceStrength,
+  getCravingTriggerName,
+  getDailyHistory,
+  getDailySpend,
+  getDailyTotals,
+  getDaySummary,
+  getDefaultAbsorptionRate,
+  getDependenceLevel,
+  getDependenceScore,
+  getLogDate,
+  getLogInputError,
+  getLogLocalTime,
+  getLogicalDay,
+  getMilestoneProgress,
+  getMoneySaved,
+  getMonthOverMonth,
+  getMonthlyTotals,
+  getPercentChange,
+  getPlasmaCurve,
+  getRangeSummary,
+  getRedoLabel,
+  getReportSummary,
+  getReportTitle,
+  getStreakStats,
+  getTaperAllowance,
+  getUndoLabel,
+  getUtcOffset,
+  getVapeMeasure,
+  getWeekOverWeek,
+  getWeeklyTotals,
+  isSameValue,
+  logsToCsv,
+  parseBackupCsv,
+  parseBackupJson,
+  rebaseHistory,
+  recommendNrt,
+  recommendTaperPlan,
+  redoHistory,
+  sumDays,
+  undoHistory
+} from './core';
+import type { ImportResult, RecordChange, UndoHistory } from './core';
+import {
+  RecordStore,
+  broadcastRecordChange,
+  loadCravings,
+  loadLogs,
+  subscribeToRecordChanges,
+  writeRecordChange
+} from './db';
+import {
+  STORAGE_KEYS,
+  getProfileKey,
+  loadConfig,
+  loadProfiles,
+  loadQuizResult,
+  loadReminderSettings,
+  loadSpending,
+  loadState,
+  loadSyncSettings,
+  loadSyncState,
+  loadTaperPlan,
+  saveConfig,
+  saveQuizResult,
+  saveReminderSettings,
+  saveSpending,
+  saveSyncSettings,
+  saveTaperPlan,
+  setActiveProfile
+} from './storage';
+import {
+  createProfile,
+  deleteProfile,
+  getActiveProfile,
+  hashPin,
+  isProfileUnlocked,
+  markProfileUnlocked,
+  switchProfile,
+  updateProfile,
+  verifyPin
+} from './profiles';
+import {
+  getDueReminders,
+  markReminderFired,
+  notificationsSupported,
+  requestNotificationPermission,
+  showNotification
+} from './reminders';
+import { downloadReportPdf } from './report';
+import {
+  getPendingCount,
+  recordLocalConfigChange,
+  recordLocalLogChanges,
+  resetSync,
+  syncNow
+} from './sync';
+import type {
+  AbsorptionModel,
+  Craving,
+  CravingOutcome,
+  CravingTrigger,
+  DependenceAnswers,
+  DoseEvent,
+  NicotineSource,
+  PreferredUnit,
+  NicotineType,
+  Product,
+  Profile,
+  ProfileRegistry,
+  Purchase,
+  QuizResult,
+  ReminderSettings,
+  ReminderType,
+  SpendingSettings,
+  SyncSettings,
+  SyncState,
+  TaperCurve,
+  TaperPlan,
+  TimeToFirstUse,
+  UserConfig,
+  VapeMeasure,
+  VapeProfile
+} from './types';
 
-type NicotineSource = 'cigarettes' | 'pouches' | 'vape' | 'lozenge' | 'patch';
-type PreferredUnit = 'cigs' | 'pouches' | 'puffs' | 'vape_cadence' | 'lozenge' | 'patch';
-
-interface UserConfig {
-  source: NicotineSource;
-  unit: PreferredUnit;
-  pouchStrength?: 3 | 6;
-  daysPerVape?: number;
-  lozengeStrength?: number;
-  patchStrength?: number;
-}
-
-interface DailyLog {
-  date: string; // YYYY-MM-DD
-  unitType: PreferredUnit;
-  quantity: number;
-}
-
-const NICOTINE_MG_PER_CIG = 2.0;
-const ABSORBED_MG_PER_POUCH_3MG = 1.5;
-const ABSORBED_MG_PER_POUCH_6MG = 3.0;
-const ABSORBED_MG_PER_PUFF = 0.08;
-const PUFFS_PER_DEVICE = 5000;
-const LOZENGE_ABSORPTION_RATE = 0.5;
-const PATCH_ABSORPTION_RATE = 1.0;
+const QUIZ_STEPS = 5;
+const MIN_DAYS_PER_VAPE = 1;
+
+const DEFAULT_DEPENDENCE_ANSWERS: DependenceAnswers = {
+  timeToFirstUse: 'within60',
+  dailyQuantity: 10,
+  hardToRefrain: false,
+  hateToGiveUpFirst: false,
+  moreInMorning: false,
+  useWhenIll: false,
+};
+
+const TIME_TO_FIRST_USE_OPTIONS: { value: TimeToFirstUse, label: string }[] = [
+  { value: 'within5', label: 'Within 5 min' },
+  { value: 'within30', label: '6–30 min' },
+  { value: 'within60', label: '31–60 min' },
+  { value: 'after60', label: 'After 60 min' },
+];
+
+const DEPENDENCE_QUESTIONS: { key: 'hardToRefrain' | 'hateToGiveUpFirst' | 'moreInMorning' | 'useWhenIll', label: string }[] = [
+  { key: 'hardToRefrain', label: "It's hard not to use it where it isn't allowed" },
+  { key: 'hateToGiveUpFirst', label: 'The first one in the morning would be the hardest to give up' },
+  { key: 'moreInMorning', label: 'I use more in the first hours after waking than the rest of the day' },
+  { key: 'useWhenIll', label: "I use it even when I'm ill in bed most of the day" },
+];
+
+const VIEW_DAY_OPTIONS = [7, 14, 30];
+const TREND_DAY_OPTIONS = [30, 90];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// What one logged unit of each delivery type is called.
+const UNIT_NAMES: Record<PreferredUnit, string> = {
+  cigs: 'cig',
+  pouches: 'pouch',
+  puffs: 'puff',
+  vape_cadence: 'day',
+  lozenge: 'unit',
+  patch: 'patch',
+};
+
+// What a pack of each delivery type holds, for purchase amounts.
+const PACK_UNIT_NAMES: Record<PreferredUnit, string> = {
+  cigs: 'cigarettes',
+  pouches: 'pouches',
+  puffs: 'puffs',
+  vape_cadence: 'days',
+  lozenge: 'lozenges',
+  patch: 'patches',
+};
+
+const VAPE_MEASURE_NAMES: Record<VapeMeasure, string> = {
+  puff: 'puff',
+  pod: 'pod',
+  ml: 'mL',
+};
+
+// Whole and half hours from UTC-12:00 to UTC+14:00, for moving an entry to another timezone.
+const UTC_OFFSETS = Array.from({ length: 53 }, (_, i) => (i - 24) * 30);
+
+// What a logged quantity counts, e.g. "pouch" or, for vape profile logs, "pod".
+const getQuantityUnitName = (log: DoseEvent) =>
+  log.vapeMeasure ? VAPE_MEASURE_NAMES[log.vapeMeasure] : UNIT_NAMES[log.unitType];
+
+const ABSORPTION_MODEL_FIELDS: { key: Exclude<keyof AbsorptionModel, 'name'>, label: string, step: string, percent?: boolean }[] = [
+  { key: 'mgPerCig', label: 'Absorbed mg per cigarette', step: '0.1' },
+  { key: 'mgPerPouch3mg', label: 'Absorbed mg per 3mg pouch', step: '0.1' },
+  { key: 'mgPerPouch6mg', label: 'Absorbed mg per 6mg pouch', step: '0.1' },
+  { key: 'mgPerPuff', label: 'Absorbed mg per puff', step: '0.01' },
+  { key: 'puffsPerDevice', label: 'Puffs per disposable', step: '100' },
+  { key: 'lozengeAbsorptionRate', label: 'Lozenge absorption (%)', step: '1', percent: true },
+  { key: 'patchAbsorptionRate', label: 'Patch absorption (%)', step: '1', percent: true },
+];
+
+const showsStrength = (deliveryType: PreferredUnit) =>
+  deliveryType === 'pouches' || deliveryType === 'lozenge' || deliveryType === 'patch';
+
+const hasVapeProfile = (product: Product): product is Product & { vapeProfile: VapeProfile } => !!product.vapeProfile;
+
+// Units the quiz asks a strength or cadence for.
+const hasDetailStep = (unit: PreferredUnit) => showsStrength(unit) || unit === 'vape_cadence';
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Keeps past/future snapshots of a value so committed changes can be undone and redone.
+const useUndoable = <T,>(initial: () => T) => {
+  const [history, setHistory] = useState<UndoHistory<T>>(() => createHistory(initial()));
+
+  const commit = (label: string, updater: (prev: T) => T) => {
+    setHistory(h => commitHistory(h, label, updater));
+  };
+
+  const undo = () => {
+    setHistory(undoHistory);
+  };
+
+  const redo = () => {
+    setHistory(redoHistory);
+  };
+
+  // Replaces the value without recording history, e.g. once it has finished loading.
+  const reset = (state: T) => {
+    setHistory(createHistory(state));
+  };
+
+  // Applies a change made elsewhere to every snapshot, so undoing a local action doesn't revert it.
+  const rebase = (updater: (prev: T) => T) => {
+    setHistory(h => rebaseHistory(h, updater));
+  };
+
+  return {
+    present: history.present,
+    commit,
+    undo,
+    redo,
+    reset,
+    rebase,
+    undoLabel: getUndoLabel(history),
+    redoLabel: getRedoLabel(history),
+  };
+};
+
+// Writes changed records to IndexedDB, broadcasts them to other tabs, and applies theirs via `applyRemote`.
+// Edits made in this tab are also passed to `onLocalChange`. Returns `markPersisted`, to call with freshly
+// loaded records so they aren't written straight back, and `applyChange` for changes from the sync server.
+const useRecordSync = <T extends { id: string },>(
+  store: RecordStore,
+  records: T[],
+  loaded: boolean,
+  applyRemote: (updater: (prev: T[]) => T[]) => void,
+  onError: () => void,
+  onLocalChange?: (change: RecordChange<T>) => void
+) => {
+  const persisted = useRef(new Map<string, T>());
+  // Records from `applyChange` are saved and broadcast like local edits, but not reported as local.
+  const synced = useRef({ puts: new Set<T>(), deletes: new Set<string>() });
+
+  useEffect(() => {
+    if (!loaded) return;
+    const change = diffRecords(persisted.current, records);
+    if (!change) return;
+    persisted.current = new Map(records.map(r => [r.id, r]));
+    const local = excludeRecordChange(change, synced.current);
+    synced.current = { puts: new Set(), deletes: new Set() };
+    if (local) onLocalChange?.(local);
+    writeRecordChange(store, change, records)
+      .then(() => broadcastRecordChange(store, change))
+      .catch(e => {
+        console.error(`Failed to save ${store}`, e);
+        onError();
+      });
+  }, [records, loaded]);
+
+  useEffect(() => subscribeToRecordChanges<T>(store, change => {
+    // Records from other tabs are already persisted; mark them so they aren't written again.
+    change.puts.forEach(r => persisted.current.set(r.id, r));
+    change.deletes.forEach(id => persisted.current.delete(id));
+    applyRemote(prev => applyRecordChange(prev, change));
+  }), []);
+
+  const markPersisted = (loadedRecords: T[]) => {
+    persisted.current = new Map(loadedRecords.map(r => [r.id, r]));
+  };
+
+  const applyChange = (change: RecordChange<T>) => {
+    change.puts.forEach(r => synced.current.puts.add(r));
+    change.deletes.forEach(id => synced.current.deletes.add(id));
+    applyRemote(prev => applyRecordChange(prev, change));
+  };
+
+  return { markPersisted, applyChange };
+};
+
+const getUnitIcon = (unit: PreferredUnit) => {
+  switch (unit) {
+    case 'cigs': return '🚬';
+    case 'pouches': return '📦';
+    case 'lozenge': return '🍬';
+    case 'patch': return '🩹';
+    case 'puffs':
+    case 'vape_cadence': return '💨';
+    default: return '❓';
+  }
+};
+
+const DoseEventRow: React.FC<{
+  event: DoseEvent,
+  products: Product[],
+  onUpdate: (id: string, changes: Partial<Omit<DoseEvent, 'id'>>) => void,
+  onRemove: (id: string) => void
+}> = ({ event, products, onUpdate, onRemove }) => {
+  // Shown and edited at the offset the entry was logged with, so editing an entry from another
+  // timezone doesn't move it.
+  const local = getLogLocalTime(event);
+  const [editing, setEditing] = useState(false);
+  const [quantity, setQuantity] = useState(String(event.quantity));
+  const [date, setDate] = useState(local.date);
+  const [time, setTime] = useState(local.time);
+  const [utcOffset, setUtcOffset] = useState(local.utcOffset);
+  const [productId, setProductId] = useState(event.productId || '');
+  const [error, setError] = useState<string | null>(null);
+  const offsets = UTC_OFFSETS.includes(utcOffset) ? UTC_OFFSETS : [...UTC_OFFSETS, utcOffset].sort((a, b) => a - b);
+
+  const handleSave = () => {
+    const val = parseFloat(quantity);
+    const timestamp = fromLocalTime(date, time, utcOffset);
+    const inputError = getLogInputError(val, timestamp);
+    if (inputError) {
+      setError(inputError);
+      return;
+    }
+    // Moving an entry to another product re-pins it to that product's current values.
+    const product = productId !== (event.productId || '') ? products.find(p => p.id === productId) : undefined;
+    onUpdate(event.id, {
+      quantity: val,
+      timestamp: timestamp.toISOString(),
+      utcOffset,
+      ...(product && {
+        unitType: product.deliveryType,
+        strength: product.strength,
+        absorptionRate: product.absorptionRate,
+        productId: product.id,
+        productName: product.name,
+        vapeMeasure: undefined,
+        puffsPerUnit: undefined,
+      }),
+    });
+    setError(null);
+    setEditing(false);
+  };
+
+  const handleCancel = () => {
+    setQuantity(String(event.quantity));
+    setDate(local.date);
+    setTime(local.time);
+    setUtcOffset(local.utcOffset);
+    setProductId(event.productId || '');
+    setError(null);
+    setEditing(false);
+  };
+
+  const inputClass = "p-1 rounded-md bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-600 text-sm";
+
+  return (
+    <div className="py-2 px-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700">
+      <div className="flex justify-between items-center gap-3">
+        {editing ? (
+          <div className="flex flex-wrap items-center gap-2 flex-1">
+            <input
+              type="date"
+              value={date}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setDate(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className={inputClass}
+            />
+            <select value={utcOffset} onChange={(e) => setUtcOffset(Number(e.target.value))} className={inputClass} title="Timezone">
+              {offsets.map(offset => <option key={offset} value={offset}>{formatUtcOffset(offset)}</option>)}
+            </select>
+            <input
+              type="number"
+              min="0"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+                if (e.key === 'Escape') handleCancel();
+              }}
+              className={`w-20 ${inputClass}`}
+            />
+            <select value={productId} onChange={(e) => setProductId(e.target.value)} className={inputClass}>
+              {!products.some(p => p.id === event.productId) && (
+                <option value={event.productId || ''}>{event.productName || event.unitType.replace('_', ' ')}</option>
+              )}
+              {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+        ) : (
+          <div className="flex items-center gap-3 flex-1">
+            <span className="text-sm font-mono text-gray-500">
+              {local.time}
+              {local.utcOffset !== getUtcOffset(new Date()) && <span className="text-[10px] ml-1">{formatUtcOffset(local.utcOffset)}</span>}
+            </span>
+            <span className="text-lg">{getUnitIcon(event.unitType)}</span>
+            <span className="text-sm capitalize">
+              {event.productName || event.unitType.replace('_', ' ')}: {event.quantity}{event.vapeMeasure && ` ${getQuantityUnitName(event)}`}
+            </span>
+          </div>
+        )}
+        <div className="flex items-center gap-3">
+          <span
+            className="text-sm font-semibold text-gray-700 dark:text-gray-300"
+            title={`Estimated with the ${event.absorptionModel || DEFAULT_ABSORPTION_MODEL.name} model`}
+          >
+            {getAbsorbedMg(event).toFixed(1)}mg
+          </span>
+          {editing ? (
+            <>
+              <button onClick={handleSave} className="text-gray-400 hover:text-green-500 transition-colors" title="Save">
+                <Check size={16} />
+              </button>
+              <button onClick={handleCancel} className="text-gray-400 hover:text-gray-600 transition-colors" title="Cancel">
+                <X size={16} />
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => setEditing(true)} className="text-gray-400 hover:text-blue-500 transition-colors" title="Edit">
+                <Pencil size={14} />
+              </button>
+              <button onClick={() => onRemove(event.id)} className="text-gray-400 hover:text-red-500 transition-colors" title="Delete">
+                <Trash2 size={14} />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+    </div>
+  );
+};
 
 const Quiz: React.FC<{ 
-  onComplete: (config: UserConfig, initialLog?: number) => void,
-  currentConfig: UserConfig | null
-}> = ({ onComplete, currentConfig }) => {
+  onComplete: (config: UserConfig, result: QuizResult, plan: TaperPlan | null, initialLog?: number) => void,
+  currentConfig: UserConfig | null,
+  previousResult: QuizResult | null,
+  currentPlan: TaperPlan | null,
+  logs: DoseEvent[]
+}> = ({ onComplete, currentConfig, previousResult, currentPlan, logs }) => {
   const [step, setStep] = useState(1);
   const [source, setSource] = useState<NicotineSource | ''>(currentConfig?.source || '');
   const [unit, setUnit] = useState<PreferredUnit | ''>(currentConfig?.unit || '');
-  const [pouchStrength, setPouchStrength] = useState<3 | 6>(currentConfig?.pouchStrength || 6);
-  const [daysPerVape, setDaysPerVape] = useState<number>(currentConfig?.daysPerVape || 1);
-  const [lozengeStrength, setLozengeStrength] = useState<number>(currentConfig?.lozengeStrength || 4);
-  const [patchStrength, setPatchStrength] = useState<number>(currentConfig?.patchStrength || 21);
+  const existingStrength = (deliveryType: PreferredUnit) =>
+    currentConfig?.products.find(p => p.deliveryType === deliveryType)?.strength;
+  const existingCadence = existingStrength('vape_cadence');
+  const [pouchStrength, setPouchStrength] = useState<number>(existingStrength('pouches') || 6);
+  const model = currentConfig?.absorptionModel || DEFAULT_ABSORPTION_MODEL;
+  const [daysPerVape, setDaysPerVape] = useState<number>(existingCadence ? Math.max(MIN_DAYS_PER_VAPE, getCadenceStrength(1, model) / existingCadence) : 1);
+  const [lozengeStrength, setLozengeStrength] = useState<number>(existingStrength('lozenge') || 4);
+  const [patchStrength, setPatchStrength] = useState<number>(existingStrength('patch') || 21);
   const [initialLog, setInitialLog] = useState<string>('');
+  // Answers from the last run are kept, so re-running the quiz only needs what changed.
+  const [answers, setAnswers] = useState<DependenceAnswers>(previousResult?.answers || DEFAULT_DEPENDENCE_ANSWERS);
+  const [applyPlan, setApplyPlan] = useState(!currentPlan);
+
+  // Step 3 asks for a strength or cadence, which cigarettes and puffs don't have; Back and Next both skip it.
+  const skipsDetail = !unit || !hasDetailStep(unit);
+  const nextStep = step === 2 && skipsDetail ? 4 : step + 1;
+  const prevStep = step === 4 && skipsDetail ? 2 : step - 1;
+  const canContinue = step === 1 ? !!source
+    : step === 2 ? !!unit
+    : step === 3 && unit === 'vape_cadence' ? daysPerVape >= MIN_DAYS_PER_VAPE
+    : true;
 
   const handleNext = () => {
-    if (step === 1 && source) setStep(2);
-    else if (step === 2 && unit) {
-      if (unit === 'pouches' || unit === 'vape_cadence' || unit === 'lozenge' || unit === 'patch') setStep(3);
-      else setStep(4);
+    if (canContinue) setStep(nextStep);
+  };
+
+  const getProduct = (): Product => {
+    switch (unit as PreferredUnit) {
+      case 'pouches': return createProduct('Pouch', 'pouches', pouchStrength, model);
+      case 'puffs': return createProduct('Vape', 'puffs', model.mgPerPuff, model);
+      case 'vape_cadence': return createProduct('Disposable vape', 'vape_cadence', getCadenceStrength(daysPerVape, model), model);
+      case 'lozenge': return createProduct('Lozenge', 'lozenge', lozengeStrength, model);
+      case 'patch': return createProduct('Patch', 'patch', patchStrength, model);
+      default: return createProduct('Cigarette', 'cigs', model.mgPerCig, model);
     }
-    else if (step === 3) setStep(4);
   };
 
+  const getAssessment = () => {
+    const product = getProduct();
+    // A cadence product's strength is already its mg per day.
+    const dailyMg = estimateDailyMg(unit === 'vape_cadence' ? { ...answers, dailyQuantity: 1 } : answers, product);
+    const score = getDependenceScore(answers, dailyMg, model);
+    const dayStartHour = currentConfig?.dayStartHour ?? DAY_START_HOUR;
+    const baselineWeekMg = getBaselineWeekMg(logs, new Date(), dayStartHour);
+    const baselineMg = baselineWeekMg ?? dailyMg;
+    const recommendation = recommendNrt(score, answers, baselineMg, model);
+    return {
+      product,
+      result: {
+        completedAt: new Date().toISOString(),
+        answers,
+        score,
+        baselineMg,
+        baselineFromLogs: baselineWeekMg !== null,
+      },
+      recommendation,
+      plan: recommendTaperPlan(baselineMg, recommendation, getLogicalDay(new Date(), dayStartHour)),
+    };
+  };
+  const assessment = step === QUIZ_STEPS ? getAssessment() : null;
+
   const handleFinish = () => {
+    const { product, result, plan } = getAssessment();
     onComplete({
       source: source as NicotineSource,
       unit: unit as PreferredUnit,
-      pouchStrength: (unit === 'pouches' || source === 'pouches') ? pouchStrength : undefined,
-      daysPerVape: (unit === 'vape_cadence' || source === 'vape') ? daysPerVape : undefined,
-      lozengeStrength: (unit === 'lozenge' || source === 'lozenge') ? lozengeStrength : undefined,
-      patchStrength: (unit === 'patch' || source === 'patch') ? patchStrength : undefined,
-    }, initialLog ? parseFloat(initialLog) : undefined);
+      products: [product],
+      absorptionModel: model,
+      dailyLimitMg: currentConfig?.dailyLimitMg ?? DAILY_LIMIT_MG,
+      dayStartHour: currentConfig?.dayStartHour ?? DAY_START_HOUR,
+    }, result, applyPlan ? plan : null, initialLog ? parseFloat(initialLog) : undefined);
   };
 
   return (
     <div className="bg-white dark:bg-gray-800 p-8 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 max-w-md w-full space-y-6">
       <div className="flex justify-between items-center mb-4">
-        <span className="text-xs font-bold text-blue-500 uppercase tracking-widest">Step {step} of 4</span>
+        <span className="text-xs font-bold text-blue-500 uppercase tracking-widest">Step {step} of {QUIZ_STEPS}</span>
         <div className="flex gap-1">
-          {[1,2,3,4].map(s => (
+          {Array.from({ length: QUIZ_STEPS }, (_, i) => i + 1).map(s => (
             <div key={s} className={`h-1 w-6 rounded-full ${s <= step ? 'bg-blue-500' : 'bg-gray-200 dark:bg-gray-700'}`} />
           ))}
         </div>
@@ -193,10 +740,10 @@ const Quiz: React.FC<{
             <div className="space-y-3">
               <p className="text-sm text-gray-500">Select pouch strength:</p>
               <div className="flex gap-4">
-                {[3, 6].map(s => (
+                {[3, 6, 9, 11].map(s => (
                   <button
                     key={s}
-                    onClick={() => setPouchStrength(s as 3|6)}
+                    onClick={() => setPouchStrength(s)}
                     className={`flex-1 p-4 rounded-xl border-2 font-bold ${pouchStrength === s ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-100 dark:border-gray-700'}`}
                   >
                     {s} mg
@@ -210,10 +757,11 @@ const Quiz: React.FC<{
               <input 
                 type="number"
                 step="0.5"
-                min="0.5"
+                min={MIN_DAYS_PER_VAPE}
                 autoFocus
-                value={daysPerVape}
+                value={isNaN(daysPerVape) ? '' : daysPerVape}
                 onChange={(e) => setDaysPerVape(parseFloat(e.target.value))}
+                onBlur={() => setDaysPerVape(days => isNaN(days) ? days : Math.max(MIN_DAYS_PER_VAPE, days))}
                 className="w-full p-4 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none"
               />
             </div>
@@ -249,33 +797,110 @@ const Quiz: React.FC<{
 
       {step === 4 && (
         <div className="space-y-4">
-          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Starting Value</h2>
-          <p className="text-sm text-gray-500">Optional: How many {unit.replace('_', ' ')} today?</p>
-          <input 
-            type="number"
-            min="0"
-            placeholder="0"
-            autoFocus
-            value={initialLog}
-            onChange={(e) => setInitialLog(e.target.value)}
-            className="w-full p-4 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none"
-          />
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Your Habits</h2>
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500">How soon after waking do you first use nicotine?</p>
+            <div className="grid grid-cols-2 gap-2">
+              {TIME_TO_FIRST_USE_OPTIONS.map(opt => (
+                <button
+                  key={opt.value}
+                  onClick={() => setAnswers({ ...answers, timeToFirstUse: opt.value })}
+                  className={`p-3 rounded-xl border-2 text-sm font-semibold ${answers.timeToFirstUse === opt.value ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-100 dark:border-gray-700'}`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {unit !== 'vape_cadence' && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-500">How many {UNIT_NAMES[unit as PreferredUnit]}s on a typical day?</p>
+              <input 
+                type="number"
+                min="0"
+                value={answers.dailyQuantity}
+                onChange={(e) => setAnswers({ ...answers, dailyQuantity: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-full p-4 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            {DEPENDENCE_QUESTIONS.map(q => (
+              <label key={q.key} className="flex items-start gap-3 p-3 rounded-xl border-2 border-gray-100 dark:border-gray-700 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={answers[q.key]}
+                  onChange={(e) => setAnswers({ ...answers, [q.key]: e.target.checked })}
+                  className="mt-0.5"
+                />
+                {q.label}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {assessment && (
+        <div className="space-y-4">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Your Starting Point</h2>
+          <div className="p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 space-y-1">
+            <p className="text-xs text-gray-500 uppercase font-bold">Dependence score</p>
+            <p className="text-3xl font-black text-blue-600 dark:text-blue-400">
+              {assessment.result.score}/10 <span className="text-base font-semibold capitalize">{getDependenceLevel(assessment.result.score)}</span>
+            </p>
+            {previousResult && (
+              <p className="text-xs text-gray-500">
+                Last time ({format(new Date(previousResult.completedAt), 'MMM d, yyyy')}): {previousResult.score}/10, {previousResult.baselineMg.toFixed(1)} mg/day
+              </p>
+            )}
+          </div>
+          <div className="text-sm space-y-1">
+            <p>
+              <span className="font-semibold">Baseline:</span> {assessment.result.baselineMg.toFixed(1)} mg/day
+              {assessment.result.baselineFromLogs ? ' from your last 7 days of logs' : ' estimated from your answers'}
+            </p>
+            {!assessment.result.baselineFromLogs && (
+              <p className="text-xs text-gray-500">Log for a week and re-run the quiz for a measured baseline.</p>
+            )}
+            <p>
+              <span className="font-semibold">Suggested NRT start:</span> {assessment.recommendation.patchMg} mg patch, with {assessment.recommendation.shortActingMg} mg gum or lozenges for breakthrough cravings
+            </p>
+            <p>
+              <span className="font-semibold">Suggested taper:</span> {assessment.plan.startMg} mg/day down to 0 over {assessment.recommendation.taperWeeks} weeks, in three steps
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm font-semibold">
+            <input type="checkbox" checked={applyPlan} onChange={(e) => setApplyPlan(e.target.checked)} />
+            {currentPlan ? 'Replace my taper plan with this one' : 'Set up this taper plan'}
+          </label>
+          <p className="text-xs text-gray-400 italic">A Fagerström-style estimate, not medical advice. Check NRT doses with a pharmacist or doctor.</p>
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500">Optional: How many {unit.replace('_', ' ')} today?</p>
+            <input 
+              type="number"
+              min="0"
+              placeholder="0"
+              value={initialLog}
+              onChange={(e) => setInitialLog(e.target.value)}
+              className="w-full p-4 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none"
+            />
+          </div>
         </div>
       )}
 
       <div className="flex gap-3 pt-4">
         {step > 1 && (
           <button 
-            onClick={() => setStep(step - 1)}
+            onClick={() => setStep(prevStep)}
             className="flex-1 p-4 rounded-xl border-2 border-gray-100 dark:border-gray-700 font-bold hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
           >
             Back
           </button>
         )}
-        {step < 4 ? (
+        {step < QUIZ_STEPS ? (
           <button 
             onClick={handleNext}
-            disabled={step === 1 ? !source : step === 2 ? !unit : false}
+            disabled={!canContinue}
             className="flex-1 p-4 rounded-xl bg-blue-600 text-white font-bold hover:bg-blue-700 transition-all disabled:opacity-50 shadow-lg shadow-blue-500/30"
           >
             Next
@@ -293,226 +918,1829 @@ const Quiz: React.FC<{
   );
 };
 
-const App: React.FC = () => {
-  const [config, setConfig] = useState<UserConfig | null>(() => {
-    const saved = localStorage.getItem('nic_config');
-    return saved ? JSON.parse(saved) : null;
-  });
+const CravingForm: React.FC<{
+  onLog: (craving: Omit<Craving, 'id' | 'timestamp'>) => void
+}> = ({ onLog }) => {
+  const [intensity, setIntensity] = useState(3);
+  const [trigger, setTrigger] = useState<CravingTrigger | null>(null);
+  const [customTrigger, setCustomTrigger] = useState('');
+  const [note, setNote] = useState('');
 
-  const [logs, setLogs] = useState<DailyLog[]>(() => {
-    const saved = localStorage.getItem('nic_logs_v2');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const isValid = trigger !== null && (trigger !== 'custom' || customTrigger.trim() !== '');
 
-  const [showQuiz, setShowQuiz] = useState(!config);
-  const [viewDays, setViewDays] = useState(7);
-  const [showSettings, setShowSettings] = useState(false);
+  const handleLog = (outcome: CravingOutcome) => {
+    if (trigger === null || !isValid) return;
+    onLog({
+      intensity,
+      trigger,
+      customTrigger: trigger === 'custom' ? customTrigger.trim() : undefined,
+      note: note.trim() || undefined,
+      outcome,
+    });
+    setIntensity(3);
+    setTrigger(null);
+    setCustomTrigger('');
+    setNote('');
+  };
 
-  useEffect(() => {
-    if (config) {
-      localStorage.setItem('nic_config', JSON.stringify(config));
-    }
-  }, [config]);
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm font-medium mb-2 text-gray-500">Intensity</p>
+        <div className="flex gap-2">
+          {[1, 2, 3, 4, 5].map(level => (
+            <button
+              key={level}
+              onClick={() => setIntensity(level)}
+              className={`flex-1 py-2 rounded-lg border-2 font-bold transition-all ${intensity === level ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20 text-orange-600' : 'border-gray-100 dark:border-gray-700'}`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <p className="text-sm font-medium mb-2 text-gray-500">Trigger</p>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(CRAVING_TRIGGER_LABELS) as CravingTrigger[]).map(t => (
+            <button
+              key={t}
+              onClick={() => setTrigger(t)}
+              className={`px-3 py-1.5 rounded-full border text-sm transition-all ${trigger === t ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-300 font-semibold' : 'border-gray-200 dark:border-gray-600'}`}
+            >
+              {CRAVING_TRIGGER_LABELS[t].icon} {CRAVING_TRIGGER_LABELS[t].label}
+            </button>
+          ))}
+        </div>
+        {trigger === 'custom' && (
+          <input
+            type="text"
+            value={customTrigger}
+            placeholder="What triggered it?"
+            onChange={(e) => setCustomTrigger(e.target.value)}
+            className="mt-2 w-full p-2 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-600"
+          />
+        )}
+      </div>
+      <input
+        type="text"
+        value={note}
+        placeholder="Note (optional)"
+        onChange={(e) => setNote(e.target.value)}
+        className="w-full p-3 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none transition-all"
+      />
+      <div className="flex gap-3">
+        <button
+          onClick={() => handleLog('resisted')}
+          disabled={!isValid}
+          className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-xl font-bold transition-colors disabled:opacity-50"
+        >
+          Resisted 💪
+        </button>
+        <button
+          onClick={() => handleLog('used')}
+          disabled={!isValid}
+          className="flex-1 px-4 py-3 rounded-xl border-2 border-gray-200 dark:border-gray-600 font-bold transition-colors disabled:opacity-50"
+        >
+          Used
+        </button>
+      </div>
+    </div>
+  );
+};
 
-  useEffect(() => {
-    localStorage.setItem('nic_logs_v2', JSON.stringify(logs));
-  }, [logs]);
-
-  const addLog = (quantity: number, unitType: PreferredUnit, dateStr: string = format(new Date(), 'yyyy-MM-dd')) => {
-    setLogs(prev => {
-      const existing = prev.find(l => l.date === dateStr && l.unitType === unitType);
-      if (existing) {
-        return prev.map(l => (l.date === dateStr && l.unitType === unitType) ? { ...l, quantity: l.quantity + quantity } : l);
-      }
-      return [...prev, { date: dateStr, unitType, quantity }];
+const ProductForm: React.FC<{
+  product?: Product,
+  model: AbsorptionModel,
+  onSave: (product: Product) => void,
+  onCancel: () => void
+}> = ({ product, model, onSave, onCancel }) => {
+  const [name, setName] = useState(product?.name || '');
+  const [deliveryType, setDeliveryType] = useState<PreferredUnit>(product?.deliveryType || 'pouches');
+  const [strength, setStrength] = useState(String(product?.strength ?? 6));
+  const [absorptionPercent, setAbsorptionPercent] = useState(String((product?.absorptionRate ?? getDefaultAbsorptionRate(model, 'pouches', 6)) * 100));
+  const [hasVapeProfile, setHasVapeProfile] = useState(!!product?.vapeProfile);
+  const [nicotineType, setNicotineType] = useState<NicotineType>(product?.vapeProfile?.nicotineType || 'salt');
+  const [mgPerMl, setMgPerMl] = useState(String(product?.vapeProfile?.mgPerMl ?? 20));
+  const [podMl, setPodMl] = useState(String(product?.vapeProfile?.podMl ?? 2));
+  const [puffsPerMl, setPuffsPerMl] = useState(String(product?.vapeProfile?.puffsPerMl ?? DEFAULT_PUFFS_PER_ML));
+
+  const usesVapeProfile = deliveryType === 'puffs' && hasVapeProfile;
+  const isValid = name.trim() !== '' && (usesVapeProfile
+    ? parseFloat(mgPerMl) > 0 && parseFloat(podMl) > 0 && parseFloat(puffsPerMl) > 0
+    : parseFloat(strength) > 0)
+    && parseFloat(absorptionPercent) > 0 && parseFloat(absorptionPercent) <= 100;
+
+  const handleSave = () => {
+    if (!isValid) return;
+    const vapeProfile: VapeProfile | undefined = usesVapeProfile ? {
+      nicotineType,
+      mgPerMl: parseFloat(mgPerMl),
+      podMl: parseFloat(podMl),
+      puffsPerMl: parseFloat(puffsPerMl),
+    } : undefined;
+    onSave({
+      id: product?.id || crypto.randomUUID(),
+      name: name.trim(),
+      deliveryType,
+      strength: vapeProfile ? getVapeMeasure(vapeProfile, 'puff').strength : parseFloat(strength),
+      absorptionRate: parseFloat(absorptionPercent) / 100,
+      vapeProfile,
     });
   };
 
-  const getAbsorbedMg = (log: DailyLog) => {
-    if (!config) return 0;
-    switch (log.unitType) {
-      case 'cigs':
-        return log.quantity * NICOTINE_MG_PER_CIG;
-      case 'pouches':
-        const strength = config.pouchStrength || 6;
-        const perPouch = strength === 3 ? ABSORBED_MG_PER_POUCH_3MG : ABSORBED_MG_PER_POUCH_6MG;
-        return log.quantity * perPouch;
-      case 'puffs':
-        return log.quantity * ABSORBED_MG_PER_PUFF;
-      case 'vape_cadence':
-        const daysPerVape = config.daysPerVape || 1;
-        const puffsPerDay = PUFFS_PER_DEVICE / daysPerVape;
-        return log.quantity * puffsPerDay * ABSORBED_MG_PER_PUFF;
-      case 'lozenge':
-        return log.quantity * (config.lozengeStrength || 4.0) * LOZENGE_ABSORPTION_RATE;
-      case 'patch':
-        return log.quantity * (config.patchStrength || 21.0) * PATCH_ABSORPTION_RATE;
-      default:
-        return 0;
-    }
-  };
+  const inputClass = "w-full p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600";
 
-  const chartData = useMemo(() => {
-    const end = startOfDay(new Date());
-    const start = subDays(end, viewDays - 1);
-    const interval = eachDayOfInterval({ start, end });
-
-    return interval.map(day => {
-      const dateStr = format(day, 'yyyy-MM-dd');
-      const dayLogs = logs.filter(l => l.date === dateStr);
-      
-      const totalMg = dayLogs.reduce((sum, log) => sum + getAbsorbedMg(log), 0);
-      
-      return {
-        date: format(day, 'MMM dd'),
-        mg: Number(totalMg.toFixed(1)),
-        cigarettes: Number((totalMg / NICOTINE_MG_PER_CIG).toFixed(1)),
-      };
-    });
-  }, [logs, viewDays, config]);
+  return (
+    <div className="space-y-3 p-4 rounded-xl bg-white dark:bg-gray-900 border border-gray-100 dark:border-gray-700">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Name</label>
+          <input type="text" value={name} placeholder="e.g. Zyn Cool Mint" onChange={(e) => setName(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Delivery Type</label>
+          <select
+            value={deliveryType}
+            onChange={(e) => {
+              const type = e.target.value as PreferredUnit;
+              setDeliveryType(type);
+              setAbsorptionPercent(String(getDefaultAbsorptionRate(model, type, parseFloat(strength) || 0) * 100));
+            }}
+            className={inputClass}
+          >
+            {(Object.keys(DELIVERY_LABELS) as PreferredUnit[]).map(type => (
+              <option key={type} value={type}>{DELIVERY_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        {usesVapeProfile ? (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">Nicotine Type</label>
+              <select
+                value={nicotineType}
+                onChange={(e) => {
+                  const type = e.target.value as NicotineType;
+                  setNicotineType(type);
+                  setAbsorptionPercent(String(VAPE_ABSORPTION_RATES[type] * 100));
+                }}
+                className={inputClass}
+              >
+                {NICOTINE_TYPES.map(type => (
+                  <option key={type} value={type}>{type === 'salt' ? 'Nicotine salt' : 'Freebase'}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">Strength (mg/mL)</label>
+              <input type="number" step="1" min="0" value={mgPerMl} onChange={(e) => setMgPerMl(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">Pod / Tank Size (mL)</label>
+              <input type="number" step="0.1" min="0" value={podMl} onChange={(e) => setPodMl(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">Puffs per mL</label>
+              <input type="number" step="10" min="1" value={puffsPerMl} onChange={(e) => setPuffsPerMl(e.target.value)} className={inputClass} />
+            </div>
+          </>
+        ) : (
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">Nicotine per {UNIT_NAMES[deliveryType]} (mg)</label>
+            <input type="number" step="0.01" min="0" value={strength} onChange={(e) => setStrength(e.target.value)} className={inputClass} />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Absorption (%)</label>
+          <input type="number" step="1" min="1" max="100" value={absorptionPercent} onChange={(e) => setAbsorptionPercent(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+      {deliveryType === 'puffs' && (
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={hasVapeProfile}
+            onChange={(e) => {
+              setHasVapeProfile(e.target.checked);
+              setAbsorptionPercent(String((e.target.checked ? VAPE_ABSORPTION_RATES[nicotineType] : getDefaultAbsorptionRate(model, 'puffs', 0)) * 100));
+            }}
+          />
+          I know my e-liquid (log finished pods and refills as well as puffs)
+        </label>
+      )}
+      <div className="flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={!isValid}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-bold transition-colors disabled:opacity-50"
+        >
+          {product ? 'Save Product' : 'Add Product'}
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-600 font-semibold">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
 
-  const todayTotal = useMemo(() => {
-    const today = chartData[chartData.length - 1];
-    return today ? today.mg : 0;
-  }, [chartData]);
+const AbsorptionModelSettings: React.FC<{
+  model: AbsorptionModel,
+  dailyLimitMg: number,
+  dayStartHour: number,
+  onChangeModel: (model: AbsorptionModel) => void,
+  onChangeDailyLimit: (mg: number) => void,
+  onChangeDayStart: (hour: number) => void
+}> = ({ model, dailyLimitMg, dayStartHour, onChangeModel, onChangeDailyLimit, onChangeDayStart }) => {
+  const isPreset = ABSORPTION_PRESETS.some(p => p.name === model.name);
+  const inputClass = "w-full p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600";
 
-  const clearAll = () => {
-    if (confirm('Are you sure you want to clear all data?')) {
-      setLogs([]);
-    }
-  };
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Preset</label>
+          <select
+            value={isPreset ? model.name : 'Custom'}
+            onChange={(e) => {
+              const preset = ABSORPTION_PRESETS.find(p => p.name === e.target.value);
+              if (preset) onChangeModel(preset);
+            }}
+            className={inputClass}
+          >
+            {ABSORPTION_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            {!isPreset && <option value="Custom">Custom</option>}
+          </select>
+        </div>
+        {ABSORPTION_MODEL_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-gray-500 mb-1">{field.label}</label>
+            <input
+              type="number"
+              min="0"
+              max={field.percent ? 100 : undefined}
+              step={field.step}
+              // Keyed on the value so switching presets refreshes the input.
+              key={`${field.key}-${model[field.key]}`}
+              defaultValue={Number((field.percent ? model[field.key] * 100 : model[field.key]).toFixed(3))}
+              onBlur={(e) => {
+                const value = parseFloat(e.target.value);
+                const scaled = field.percent ? value / 100 : value;
+                if (isNaN(value) || value <= 0 || (field.percent && value > 100) || isSameValue(scaled, model[field.key])) {
+                  e.target.value = String(Number((field.percent ? model[field.key] * 100 : model[field.key]).toFixed(3)));
+                  return;
+                }
+                onChangeModel({ ...model, name: 'Custom', [field.key]: scaled });
+              }}
+              className={inputClass}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Daily limit (mg)</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            key={`limit-${dailyLimitMg}`}
+            defaultValue={dailyLimitMg}
+            onBlur={(e) => {
+              const value = parseFloat(e.target.value);
+              if (value > 0) onChangeDailyLimit(value);
+              else e.target.value = String(dailyLimitMg);
+            }}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Day starts at</label>
+          <select value={dayStartHour} onChange={(e) => onChangeDayStart(Number(e.target.value))} className={inputClass}>
+            {Array.from({ length: 24 }, (_, hour) => (
+              <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00{hour === 0 ? ' (midnight)' : ''}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="text-[10px] text-gray-400 italic">
+        Changes apply to new entries and to products still on the model's defaults. Past entries keep the model they were logged with.
+        Entries before the day start count towards the previous day, so a late night stays with the evening before.
+      </p>
+    </div>
+  );
+};
 
-  const removeLog = (date: string, unitType: PreferredUnit) => {
-    setLogs(logs.filter(l => !(l.date === date && l.unitType === unitType)));
-  };
+const TaperPlanForm: React.FC<{
+  plan: TaperPlan | null,
+  suggestedStartMg: number,
+  onSave: (plan: TaperPlan) => void,
+  onRemove: () => void,
+  onCancel: () => void
+}> = ({ plan, suggestedStartMg, onSave, onRemove, onCancel }) => {
+  const [startDate, setStartDate] = useState(plan?.startDate || format(new Date(), 'yyyy-MM-dd'));
+  const [startMg, setStartMg] = useState(String(plan?.startMg ?? suggestedStartMg));
+  const [targetDate, setTargetDate] = useState(plan?.targetDate || format(addWeeks(new Date(), 8), 'yyyy-MM-dd'));
+  const [targetMg, setTargetMg] = useState(String(plan?.targetMg ?? 0));
+  const [curve, setCurve] = useState<TaperCurve>(plan?.curve || 'linear');
+  const [weeklyReductionPercent, setWeeklyReductionPercent] = useState(String(plan?.weeklyReductionPercent ?? 10));
+  const [stepDays, setStepDays] = useState(String(plan?.stepDays ?? 7));
 
-  const getUnitIcon = (unit: PreferredUnit) => {
-    switch (unit) {
-      case 'cigs': return '🚬';
-      case 'pouches': return '📦';
-      case 'lozenge': return '🍬';
-      case 'patch': return '🩹';
-      case 'puffs':
-      case 'vape_cadence': return '💨';
-      default: return '❓';
-    }
+  const isValid = !!startDate && !!targetDate && targetDate > startDate
+    && parseFloat(startMg) >= 0 && parseFloat(targetMg) >= 0 && parseFloat(targetMg) <= parseFloat(startMg)
+    && parseFloat(weeklyReductionPercent) > 0 && parseFloat(weeklyReductionPercent) < 100
+    && parseInt(stepDays) >= 1;
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave({
+      startDate,
+      startMg: parseFloat(startMg),
+      targetDate,
+      targetMg: parseFloat(targetMg),
+      curve,
+      weeklyReductionPercent: parseFloat(weeklyReductionPercent),
+      stepDays: parseInt(stepDays),
+    });
   };
 
-  if (showQuiz) {
-    return (
-      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 p-4 md:p-8 flex items-center justify-center">
-        <Quiz 
-          onComplete={(newConfig, initialValue) => {
-            setConfig(newConfig);
-            setShowQuiz(false);
-            if (initialValue !== undefined) {
-              addLog(initialValue, newConfig.unit);
-            }
-          }} 
-          currentConfig={config}
-        />
-        <Analytics />
-      </div>
-    );
-  }
+  const inputClass = "w-full p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600";
 
   return (
-    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 p-4 md:p-8">
-      <div className="max-w-4xl mx-auto space-y-8">
-        <header className="flex justify-between items-center">
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Start Date</label>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Starting mg/day</label>
+          <input type="number" step="0.5" min="0" value={startMg} onChange={(e) => setStartMg(e.target.value)} className={inputClass} />
+          <p className="text-[10px] text-gray-400 mt-1 italic">Your recent average is {suggestedStartMg} mg/day.</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Target Date</label>
+          <input type="date" value={targetDate} onChange={(e) => setTargetDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Target mg/day</label>
+          <input type="number" step="0.5" min="0" value={targetMg} onChange={(e) => setTargetMg(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Reduction Curve</label>
+          <select value={curve} onChange={(e) => setCurve(e.target.value as TaperCurve)} className={inputClass}>
+            <option value="linear">Linear</option>
+            <option value="percentage">Percentage per week</option>
+            <option value="step">Step-down</option>
+          </select>
+        </div>
+        {curve === 'percentage' && (
           <div>
-            <h1 className="text-3xl font-bold text-blue-600 dark:text-blue-400">NicTrack</h1>
-            <p className="text-gray-500 dark:text-gray-400 text-sm">Track your daily nicotine journey</p>
+            <label className="block text-sm font-medium text-gray-500 mb-1">Weekly Reduction (%)</label>
+            <input type="number" step="1" min="1" max="99" value={weeklyReductionPercent} onChange={(e) => setWeeklyReductionPercent(e.target.value)} className={inputClass} />
           </div>
-          <div className="flex gap-2">
-            <button 
-              onClick={() => setShowSettings(!showSettings)}
-              className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
-              title="Settings"
-            >
-              <Settings size={20} />
-            </button>
-            <button 
-              onClick={clearAll}
-              className="p-2 text-gray-400 hover:text-red-500 transition-colors"
-              title="Clear all data"
-            >
-              <Trash2 size={20} />
-            </button>
+        )}
+        {curve === 'step' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">Days per Step</label>
+            <input type="number" step="1" min="1" value={stepDays} onChange={(e) => setStepDays(e.target.value)} className={inputClass} />
           </div>
-        </header>
+        )}
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={!isValid}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-bold transition-colors disabled:opacity-50"
+        >
+          Save Plan
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-600 font-semibold">
+          Cancel
+        </button>
+        {plan && (
+          <button onClick={onRemove} className="ml-auto text-sm text-red-500 font-semibold hover:underline">
+            Remove plan
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
 
-        {showSettings && config && (
-          <section className="bg-blue-50 dark:bg-gray-800 p-6 rounded-2xl border border-blue-100 dark:border-gray-700 space-y-4">
-            <h2 className="text-lg font-semibold flex items-center gap-2">
-              <Settings size={20} className="text-blue-500" />
-              Settings
-            </h2>
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-500 mb-1">Preferred Unit</label>
-                <select 
-                  value={config.unit}
-                  onChange={(e) => setConfig({...config, unit: e.target.value as PreferredUnit})}
-                  className="w-full p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600"
-                >
-                  {config.source === 'cigarettes' && <option value="cigs">Cigarettes per day</option>}
-                  {config.source === 'pouches' && <option value="pouches">Pouches per day</option>}
-                  {config.source === 'vape' && (
-                    <>
-                      <option value="puffs">Vape puffs per day</option>
-                      <option value="vape_cadence">Vape cadence</option>
-                    </>
-                  )}
-                  <option value="lozenge">Lozenges</option>
-                  <option value="patch">Patches</option>
-                </select>
-              </div>
+// Vape liquid is bought by the pod, but priced per puff like the rest of that product's logs.
+const getPuffsPerPod = (product: Product | undefined) =>
+  product?.vapeProfile ? getVapeMeasure(product.vapeProfile, 'pod').puffs : 1;
+
+const getPackUnitName = (product: Product) => product.vapeProfile ? 'pods' : PACK_UNIT_NAMES[product.deliveryType];
+
+// e.g. "20 pouches", or "5 pods" for a vape profile product, whose packs are stored in puffs.
+const formatPackSize = (purchase: Purchase, product: Product | undefined) => {
+  if (!product) return `${purchase.unitsPerPack} units`;
+  return `${Number((purchase.unitsPerPack / getPuffsPerPod(product)).toFixed(1))} ${getPackUnitName(product)}`;
+};
+
+const PurchaseForm: React.FC<{
+  products: Product[],
+  onSave: (purchase: Purchase) => void
+}> = ({ products, onSave }) => {
+  const [productId, setProductId] = useState(products[0]?.id || '');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [price, setPrice] = useState('');
+  const [unitsPerPack, setUnitsPerPack] = useState('20');
+
+  const product = products.find(p => p.id === productId);
+  const isValid = !!product && !!date && parseFloat(price) >= 0 && parseFloat(unitsPerPack) > 0;
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave({
+      id: crypto.randomUUID(),
+      productId,
+      date,
+      price: parseFloat(price),
+      unitsPerPack: parseFloat(unitsPerPack) * getPuffsPerPod(product),
+    });
+    setPrice('');
+  };
+
+  const inputClass = "w-full p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600";
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-end">
+      <div className="col-span-2 sm:col-span-1">
+        <label className="block text-xs font-medium text-gray-500 mb-1">Product</label>
+        <select value={productId} onChange={(e) => setProductId(e.target.value)} className={inputClass}>
+          {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Purchased</label>
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Pack Price</label>
+        <input type="number" step="0.01" min="0" value={price} onChange={(e) => setPrice(e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">
+          {product ? `${getPackUnitName(product)} per pack` : 'Units per pack'}
+        </label>
+        <input type="number" step="1" min="1" value={unitsPerPack} onChange={(e) => setUnitsPerPack(e.target.value)} className={inputClass} />
+      </div>
+      <button
+        onClick={handleSave}
+        disabled={!isValid}
+        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-bold transition-colors disabled:opacity-50"
+      >
+        Add
+      </button>
+    </div>
+  );
+};
+
+const HEATMAP_WEEKS = 53;
+
+// Share of the daily limit at which each heatmap shade starts, lightest first.
+const HEATMAP_LEVELS: { from: number, className: string }[] = [
+  { from: 0, className: 'bg-blue-100 dark:bg-blue-950' },
+  { from: 0.25, className: 'bg-blue-300 dark:bg-blue-800' },
+  { from: 0.5, className: 'bg-blue-500 dark:bg-blue-600' },
+  { from: 0.75, className: 'bg-blue-700 dark:bg-blue-400' },
+  { from: 1, className: 'bg-red-500' },
+];
+
+const CalendarHeatmap: React.FC<{
+  totals: Map<string, number>,
+  dailyLimitMg: number,
+  today: Date
+}> = ({ totals, dailyLimitMg, today }) => {
+  const firstWeek = startOfWeek(subWeeks(today, HEATMAP_WEEKS - 1));
+  const weeks = eachWeekOfInterval({ start: firstWeek, end: today });
+
+  const getCellClass = (day: Date) => {
+    if (day > today) return 'invisible';
+    const mg = totals.get(format(day, 'yyyy-MM-dd'));
+    if (mg === undefined) return 'bg-gray-100 dark:bg-gray-700';
+    if (mg === 0) return 'bg-green-400 dark:bg-green-600';
+    const share = mg / dailyLimitMg;
+    return [...HEATMAP_LEVELS].reverse().find(level => share >= level.from)?.className ?? HEATMAP_LEVELS[0].className;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto pb-2 custom-scrollbar">
+        <div className="flex gap-[3px] w-max">
+          {weeks.map(week => (
+            <div key={week.toISOString()} className="flex flex-col gap-[3px]">
+              <span className="h-3 text-[9px] leading-3 text-gray-400">
+                {week.getDate() <= 7 ? format(week, 'MMM') : ''}
+              </span>
+              {Array.from({ length: 7 }, (_, i) => addDays(week, i)).map(day => {
+                const mg = totals.get(format(day, 'yyyy-MM-dd'));
+                return (
+                  <div
+                    key={day.toISOString()}
+                    className={`w-3 h-3 rounded-sm ${getCellClass(day)}`}
+                    title={`${format(day, 'EEE, MMM dd, yyyy')}: ${mg === undefined ? 'nothing logged' : `${mg.toFixed(1)} mg`}`}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-2 text-[10px] text-gray-400">
+        <span className="w-3 h-3 rounded-sm bg-green-400 dark:bg-green-600" /> Nicotine-free
+        <span className="ml-2">Less</span>
+        {HEATMAP_LEVELS.map(level => <span key={level.from} className={`w-3 h-3 rounded-sm ${level.className}`} />)}
+        <span>Over {dailyLimitMg} mg</span>
+      </div>
+    </div>
+  );
+};
+
+const PercentChange: React.FC<{ label: string, current: number, previous: number }> = ({ label, current, previous }) => {
+  const change = getPercentChange(current, previous);
+  return (
+    <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-700/50 border border-gray-100 dark:border-gray-700">
+      <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">{label}</p>
+      <p className={`text-2xl font-black ${change === null ? 'text-gray-400' : change <= 0 ? 'text-green-500' : 'text-red-500'}`}>
+        {change === null ? '—' : `${change > 0 ? '+' : ''}${change.toFixed(0)}%`}
+      </p>
+      <p className="text-xs text-gray-400">{current.toFixed(1)} mg vs. {previous.toFixed(1)} mg</p>
+    </div>
+  );
+};
+
+const ReminderSettingsForm: React.FC<{
+  settings: ReminderSettings,
+  hasPatch: boolean,
+  permission: NotificationPermission | 'unsupported',
+  onChange: (settings: ReminderSettings) => void,
+  onEnable: (type: ReminderType) => void
+}> = ({ settings, hasPatch, permission, onChange, onEnable }) => {
+  const inputClass = "p-1 rounded-md bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-sm";
+  const toggle = (type: ReminderType, enabledKey: 'checkInEnabled' | 'patchChangeEnabled' | 'nearLimitEnabled') => (
+    <input
+      type="checkbox"
+      checked={settings[enabledKey]}
+      disabled={permission === 'unsupported' || permission === 'denied'}
+      onChange={(e) => e.target.checked ? onEnable(type) : onChange({ ...settings, [enabledKey]: false })}
+    />
+  );
+
+  return (
+    <div className="space-y-3 text-sm">
+      <label className="flex flex-wrap items-center gap-2">
+        {toggle('checkIn', 'checkInEnabled')}
+        End-of-day check-in at
+        <input type="time" value={settings.checkInTime} onChange={(e) => e.target.value && onChange({ ...settings, checkInTime: e.target.value })} className={inputClass} />
+      </label>
+      <label className={`flex flex-wrap items-center gap-2 ${hasPatch ? '' : 'opacity-50'}`}>
+        {toggle('patchChange', 'patchChangeEnabled')}
+        Patch change at
+        <input type="time" value={settings.patchChangeTime} onChange={(e) => e.target.value && onChange({ ...settings, patchChangeTime: e.target.value })} className={inputClass} />
+        {!hasPatch && <span className="text-xs text-gray-500 italic">Only for patch products.</span>}
+      </label>
+      <label className="flex flex-wrap items-center gap-2">
+        {toggle('nearLimit', 'nearLimitEnabled')}
+        Alert when I reach
+        <input
+          type="number"
+          min="1"
+          max="100"
+          value={settings.nearLimitPercent}
+          onChange={(e) => {
+            const percent = parseInt(e.target.value);
+            if (percent >= 1 && percent <= 100) onChange({ ...settings, nearLimitPercent: percent });
+          }}
+          className={`w-16 ${inputClass}`}
+        />
+        % of today's limit
+      </label>
+      {permission === 'unsupported' && <p className="text-xs text-gray-500 italic">This browser doesn't support notifications.</p>}
+      {permission === 'denied' && <p className="text-xs text-red-500">Notifications are blocked for this site. Allow them in your browser settings to use reminders.</p>}
+      {permission === 'granted' && (
+        <p className="text-[10px] text-gray-400 italic">Reminders are checked while NicTrack is open or installed and running in the background.</p>
+      )}
+    </div>
+  );
+};
+
+const isServerUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const SyncSettingsForm: React.FC<{
+  settings: SyncSettings,
+  state: SyncState,
+  syncing: boolean,
+  error: string | null,
+  onChange: (settings: SyncSettings) => void,
+  onSyncNow: () => void
+}> = ({ settings, state, syncing, error, onChange, onSyncNow }) => {
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+  const [token, setToken] = useState(settings.token);
+  const inputClass = "w-full p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600";
+  const buttonClass = "flex items-center gap-2 px-3 py-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 font-semibold disabled:opacity-50";
+  const canConnect = isServerUrl(serverUrl.trim()) && token.trim() !== '';
+  const edited = serverUrl.trim() !== settings.serverUrl || token.trim() !== settings.token;
+  const pending = getPendingCount(state);
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Server URL</label>
+          <input
+            type="url"
+            value={serverUrl}
+            placeholder="https://sync.example.com"
+            onChange={(e) => setServerUrl(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Access token</label>
+          <input
+            type="password"
+            value={token}
+            autoComplete="off"
+            onChange={(e) => setToken(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            disabled={!settings.enabled && !canConnect}
+            onChange={(e) => onChange({ ...settings, serverUrl: serverUrl.trim(), token: token.trim(), enabled: e.target.checked })}
+          />
+          Sync this profile
+        </label>
+        {settings.enabled && edited && (
+          <button
+            onClick={() => onChange({ ...settings, serverUrl: serverUrl.trim(), token: token.trim() })}
+            disabled={!canConnect}
+            className={buttonClass}
+          >
+            <Check size={14} /> Save server
+          </button>
+        )}
+        {settings.enabled && (
+          <button onClick={onSyncNow} disabled={syncing || edited} className={buttonClass}>
+            <RefreshCw size={14} className={syncing ? 'animate-spin' : ''} /> {syncing ? 'Syncing…' : 'Sync now'}
+          </button>
+        )}
+      </div>
+      {settings.enabled && (
+        <p className="text-xs text-gray-500">
+          {state.lastSyncedAt ? `Last synced ${format(new Date(state.lastSyncedAt), 'MMM dd, HH:mm')}` : 'Not synced yet'}
+          {pending > 0 && ` · ${pending} ${pending === 1 ? 'change' : 'changes'} waiting to be sent`}
+        </p>
+      )}
+      {settings.enabled && error && (
+        <p className="text-xs text-red-500">Sync failed: {error}. Everything is still saved on this device and will be sent once the server can be reached.</p>
+      )}
+      <p className="text-[10px] text-gray-400 italic">
+        Shares this profile's settings and history with your other devices through a NicTrack sync server you host yourself.
+        When the same entry is changed on two devices, the later change is kept; when sync is turned on, the server's copy is kept for entries both already have.
+        This device: {settings.deviceId.slice(0, 8)}
+      </p>
+    </div>
+  );
+};
+
+const MIN_PIN_LENGTH = 4;
+
+const PinPrompt: React.FC<{
+  profile: Profile,
+  otherProfiles: Profile[],
+  onUnlock: () => void,
+  onSwitch: (profileId: string) => void
+}> = ({ profile, otherProfiles, onUnlock, onSwitch }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState(false);
+
+  const handleSubmit = async () => {
+    if (await verifyPin(profile, pin)) {
+      onUnlock();
+    } else {
+      setError(true);
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 p-4 flex items-center justify-center">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 max-w-sm w-full space-y-6 text-center">
+        <Lock size={32} className="mx-auto text-blue-500" />
+        <h2 className="text-2xl font-bold">{profile.name}</h2>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoFocus
+          value={pin}
+          placeholder="PIN"
+          onChange={(e) => {
+            setPin(e.target.value);
+            setError(false);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          className="w-full p-4 text-center text-xl tracking-widest rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none"
+        />
+        {error && <p className="text-sm text-red-500">Wrong PIN. Try again.</p>}
+        <button
+          onClick={handleSubmit}
+          disabled={pin.length < MIN_PIN_LENGTH}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-xl font-bold transition-colors disabled:opacity-50"
+        >
+          Unlock
+        </button>
+        {otherProfiles.length > 0 && (
+          <div className="space-y-2 pt-4 border-t border-gray-100 dark:border-gray-700">
+            <p className="text-xs text-gray-500">Not you?</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {otherProfiles.map(p => (
+                <button key={p.id} onClick={() => onSwitch(p.id)} className="px-3 py-1.5 rounded-full border border-gray-200 dark:border-gray-600 text-sm font-semibold">
+                  {p.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const NEW_PROFILE = '__new__';
+
+const ProfileSwitcher: React.FC<{ registry: ProfileRegistry }> = ({ registry }) => (
+  <label className="flex items-center gap-1 text-gray-400" title="Switch profile">
+    <Users size={18} />
+    <select
+      value={registry.activeId}
+      onChange={(e) => {
+        if (e.target.value !== NEW_PROFILE) {
+          switchProfile(registry, e.target.value);
+          return;
+        }
+        const name = prompt('Name for the new profile:')?.trim();
+        if (name) createProfile(registry, name);
+        else e.target.value = registry.activeId;
+      }}
+      className="bg-transparent text-sm font-semibold text-gray-600 dark:text-gray-300 outline-none cursor-pointer"
+    >
+      {registry.profiles.map(p => (
+        <option key={p.id} value={p.id}>{p.name}{p.pinHash ? ' 🔒' : ''}</option>
+      ))}
+      <option value={NEW_PROFILE}>+ New profile…</option>
+    </select>
+  </label>
+);
+
+const ProfileSettings: React.FC<{
+  registry: ProfileRegistry,
+  onChange: (registry: ProfileRegistry) => void
+}> = ({ registry, onChange }) => {
+  const profile = getActiveProfile(registry);
+  const [name, setName] = useState(profile.name);
+  const [pin, setPin] = useState('');
+
+  const inputClass = "p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-sm";
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+        <button
+          onClick={() => onChange(updateProfile(registry, { ...profile, name: name.trim() }))}
+          disabled={!name.trim() || name.trim() === profile.name}
+          className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 font-semibold disabled:opacity-50"
+        >
+          Rename
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="password"
+          inputMode="numeric"
+          value={pin}
+          placeholder={profile.pinHash ? 'New PIN' : 'PIN'}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+          className={`w-28 ${inputClass}`}
+        />
+        <button
+          onClick={async () => {
+            onChange(updateProfile(registry, { ...profile, pinHash: await hashPin(profile.id, pin) }));
+            markProfileUnlocked(profile);
+            setPin('');
+          }}
+          disabled={pin.length < MIN_PIN_LENGTH}
+          className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 font-semibold disabled:opacity-50"
+        >
+          {profile.pinHash ? 'Change PIN' : 'Set PIN'}
+        </button>
+        {profile.pinHash && (
+          <button
+            onClick={() => onChange(updateProfile(registry, { ...profile, pinHash: undefined }))}
+            className="text-blue-600 dark:text-blue-400 font-semibold hover:underline"
+          >
+            Remove PIN
+          </button>
+        )}
+      </div>
+      <p className="text-[10px] text-gray-400 italic">
+        A PIN keeps others on this device out of the profile. It doesn't encrypt the data stored in the browser.
+      </p>
+      {registry.profiles.length > 1 && (
+        <button
+          onClick={() => {
+            if (confirm(`Delete the profile "${profile.name}" and all of its data? This can't be undone.`)) {
+              deleteProfile(registry, profile.id);
+            }
+          }}
+          className="text-sm text-red-500 font-semibold hover:underline"
+        >
+          Delete this profile
+        </button>
+      )}
+    </div>
+  );
+};
+
+const StorageNotice: React.FC<{ issues: string[], onDismiss: () => void }> = ({ issues, onDismiss }) => (
+  <div className="flex items-start gap-3 p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-200">
+    <AlertCircle size={18} className="shrink-0 mt-0.5" />
+    <div className="flex-1 space-y-1">
+      <p className="font-semibold">Some saved data needed repair</p>
+      <ul className="list-disc pl-4 space-y-0.5">
+        {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+      </ul>
+    </div>
+    <button onClick={onDismiss} className="text-amber-600 hover:text-amber-800 dark:hover:text-amber-100" title="Dismiss">
+      <X size={16} />
+    </button>
+  </div>
+);
+
+// Light, print-optimized page; everything else on screen is hidden while printing.
+const ReportView: React.FC<{ report: ProgressReport, onClose: () => void }> = ({ report, onClose }) => {
+  const [pdfError, setPdfError] = useState<string | null>(null);
+  const chart = report.days.map(d => ({ ...d, label: format(new Date(d.date + 'T00:00:00'), 'MMM dd') }));
+
+  const downloadPdf = async () => {
+    setPdfError(null);
+    try {
+      await downloadReportPdf(report);
+    } catch (e) {
+      console.error('Failed to create PDF', e);
+      setPdfError('The PDF could not be created. Use Print and choose "Save as PDF" instead.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-white text-gray-900 print:static print:overflow-visible">
+      <div className="max-w-3xl mx-auto p-8 space-y-6">
+        <div className="flex flex-wrap items-center gap-3 print:hidden">
+          <button onClick={() => window.print()} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-bold transition-colors">
+            <Printer size={16} /> Print
+          </button>
+          <button onClick={downloadPdf} className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 font-semibold">
+            <Download size={16} /> Download PDF
+          </button>
+          <button onClick={onClose} className="ml-auto flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 font-semibold">
+            <X size={16} /> Close
+          </button>
+          {pdfError && <p className="w-full text-sm text-red-500">{pdfError}</p>}
+        </div>
+
+        <header className="border-b border-gray-200 pb-4">
+          <h1 className="text-2xl font-bold">{getReportTitle(report)}</h1>
+          <p className="text-sm text-gray-500">
+            {report.profileName} · generated {format(new Date(report.generatedAt), 'MMM d, yyyy HH:mm')} · absorption model: {report.modelName}
+          </p>
+        </header>
+
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold">Summary</h2>
+          <table className="w-full text-sm">
+            <tbody>
+              {getReportSummary(report).map(([label, value]) => (
+                <tr key={label} className="border-b border-gray-100">
+                  <th className="text-left font-semibold py-1 pr-4 w-32">{label}</th>
+                  <td className="py-1">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="space-y-2 break-inside-avoid">
+          <h2 className="text-lg font-semibold">Daily absorbed nicotine</h2>
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chart}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#6b7280' }} minTickGap={16} />
+                <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#6b7280' }} unit=" mg" width={56} />
+                <Bar dataKey="mg" name="Absorbed" fill="#3b82f6" radius={[2, 2, 0, 0]} isAnimationActive={false} />
+                <Line type="stepAfter" dataKey="target" name="Taper target" stroke="#f59e0b" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+
+        <section className="space-y-2 break-inside-avoid">
+          <h2 className="text-lg font-semibold">Product mix</h2>
+          {report.productMix.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Nothing logged in this range.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left">
+                  <th className="py-1">Type</th>
+                  <th className="py-1 text-right">Entries</th>
+                  <th className="py-1 text-right">Absorbed</th>
+                  <th className="py-1 text-right">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.productMix.map(p => (
+                  <tr key={p.label} className="border-b border-gray-100">
+                    <td className="py-1">{p.label}</td>
+                    <td className="py-1 text-right">{p.entries}</td>
+                    <td className="py-1 text-right">{p.mg.toFixed(1)} mg</td>
+                    <td className="py-1 text-right">{(p.share * 100).toFixed(0)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold">Daily detail</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left">
+                <th className="py-1">Date</th>
+                <th className="py-1 text-right">Absorbed</th>
+                <th className="py-1 text-right">Cigarette equiv.</th>
+                <th className="py-1 text-right">Target</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.days.map(d => (
+                <tr key={d.date} className="border-b border-gray-100 break-inside-avoid">
+                  <td className="py-1">{format(new Date(d.date + 'T00:00:00'), 'EEE, MMM d, yyyy')}</td>
+                  <td className="py-1 text-right">{d.mg} mg</td>
+                  <td className="py-1 text-right">{d.cigarettes}</td>
+                  <td className="py-1 text-right">{d.target !== undefined ? `${d.target} mg` : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="p-4 rounded-xl bg-gray-50 border border-gray-200 text-xs text-gray-600 break-inside-avoid">
+          <p className="font-semibold mb-1">About these numbers</p>
+          <p>{REPORT_DISCLAIMER}</p>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+const UpdatePrompt: React.FC = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker,
+  } = useRegisterSW();
+
+  if (!needRefresh) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 rounded-xl bg-blue-600 text-white shadow-xl text-sm">
+      <RefreshCw size={16} />
+      <span>A new version of NicTrack is available.</span>
+      <button
+        onClick={() => updateServiceWorker(true)}
+        className="font-bold uppercase tracking-wider text-xs bg-white/20 hover:bg-white/30 px-2 py-1 rounded-md"
+      >
+        Reload
+      </button>
+      <button onClick={() => setNeedRefresh(false)} className="text-blue-200 hover:text-white" title="Later">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const SYNC_DELAY_MS = 3 * 1000;
+
+const Tracker: React.FC<{
+  registry: ProfileRegistry,
+  onRegistryChange: (registry: ProfileRegistry) => void
+}> = ({ registry, onRegistryChange }) => {
+  const [initialState] = useState(loadState);
+  const [config, setConfig] = useState<UserConfig | null>(initialState.config);
+
+  const logHistory = useUndoable<DoseEvent[]>(() => []);
+  const logs = logHistory.present;
+  const [cravings, setCravings] = useState<Craving[]>([]);
+  const [dataLoaded, setDataLoaded] = useState(false);
+  const [toast, setToast] = useState<{ id: number, message: string, action?: 'undo' | 'redo' } | null>(null);
+
+  const [showQuiz, setShowQuiz] = useState(!config);
+  const [viewDays, setViewDays] = useState(7);
+  const [showSettings, setShowSettings] = useState(false);
+  const [expandedDay, setExpandedDay] = useState<string | null>(null);
+  const [curveHours, setCurveHours] = useState(24);
+  const [rangeView, setRangeView] = useState<'heatmap' | 'weekly' | 'monthly' | 'custom'>('heatmap');
+  const [customRange, setCustomRange] = useState(() => ({
+    start: format(subDays(new Date(), 29), 'yyyy-MM-dd'),
+    end: format(new Date(), 'yyyy-MM-dd'),
+  }));
+  const [trendDays, setTrendDays] = useState(30);
+  const [reportRange, setReportRange] = useState(() => ({
+    start: format(subDays(new Date(), 29), 'yyyy-MM-dd'),
+    end: format(new Date(), 'yyyy-MM-dd'),
+  }));
+  const [report, setReport] = useState<ProgressReport | null>(null);
+  const [taperPlan, setTaperPlan] = useState<TaperPlan | null>(initialState.taperPlan);
+  const [spending, setSpending] = useState<SpendingSettings>(initialState.spending);
+  const [quizResult, setQuizResult] = useState<QuizResult | null>(initialState.quiz);
+  const [reminders, setReminders] = useState<ReminderSettings>(initialState.reminders);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => notificationsSupported() ? Notification.permission : 'unsupported'
+  );
+  const [storageIssues, setStorageIssues] = useState<string[]>(initialState.issues);
+  const [showTaperForm, setShowTaperForm] = useState(false);
+  const [editingProductId, setEditingProductId] = useState<string | 'new' | null>(null);
+  const [customProductId, setCustomProductId] = useState<string>('');
+  const [customMeasure, setCustomMeasure] = useState<VapeMeasure>('puff');
+  const [customTimestamp, setCustomTimestamp] = useState(''); // datetime-local value; empty means now
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<ImportResult | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(initialState.sync);
+  const [syncState, setSyncState] = useState<SyncState>(loadSyncState);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncRequests, setSyncRequests] = useState(0); // bumped by local edits
+  // The last settings that came from the sync server or another tab, so they aren't queued as local edits.
+  const externalConfig = useRef(initialState.config);
+
+  useEffect(() => {
+    if (config) {
+      saveConfig(config);
+      if (syncSettings.enabled && config !== externalConfig.current) {
+        recordLocalConfigChange();
+        setSyncState(loadSyncState());
+        setSyncRequests(n => n + 1);
+      }
+    }
+  }, [config]);
+
+  useEffect(() => {
+    saveTaperPlan(taperPlan);
+  }, [taperPlan]);
+
+  useEffect(() => {
+    saveSpending(spending);
+  }, [spending]);
+
+  useEffect(() => {
+    saveQuizResult(quizResult);
+  }, [quizResult]);
+
+  useEffect(() => {
+    saveReminderSettings(reminders);
+  }, [reminders]);
+
+  useEffect(() => {
+    saveSyncSettings(syncSettings);
+  }, [syncSettings]);
+
+  const reportSaveFailure = () => {
+    setStorageIssues(prev => [...prev, 'Your latest change could not be saved. Export a backup before closing the app.']);
+  };
+  const handleLocalLogChange = (change: RecordChange<DoseEvent>) => {
+    if (!syncSettings.enabled) return;
+    recordLocalLogChanges(change);
+    setSyncState(loadSyncState());
+    setSyncRequests(n => n + 1);
+  };
+  const logSync = useRecordSync('logs', logs, dataLoaded, logHistory.rebase, reportSaveFailure, handleLocalLogChange);
+  const cravingSync = useRecordSync('cravings', cravings, dataLoaded, setCravings, reportSaveFailure);
+
+  useEffect(() => {
+    const issues: string[] = [];
+    Promise.all([loadLogs(issues), loadCravings(issues)]).then(([loadedLogs, loadedCravings]) => {
+      logSync.markPersisted(loadedLogs);
+      cravingSync.markPersisted(loadedCravings);
+      logHistory.reset(loadedLogs);
+      setCravings(loadedCravings);
+      if (issues.length > 0) setStorageIssues(prev => [...prev, ...issues]);
+      setDataLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === getProfileKey(STORAGE_KEYS.config)) {
+        const updated = loadConfig([]);
+        if (updated) {
+          externalConfig.current = updated;
+          setConfig(updated);
+        }
+      } else if (e.key === getProfileKey(STORAGE_KEYS.taperPlan)) {
+        setTaperPlan(loadTaperPlan([]));
+      } else if (e.key === getProfileKey(STORAGE_KEYS.spending)) {
+        setSpending(loadSpending([]));
+      } else if (e.key === getProfileKey(STORAGE_KEYS.quiz)) {
+        setQuizResult(loadQuizResult([]));
+      } else if (e.key === getProfileKey(STORAGE_KEYS.reminders)) {
+        setReminders(loadReminderSettings([]));
+      } else if (e.key === getProfileKey(STORAGE_KEYS.sync)) {
+        setSyncSettings(loadSyncSettings([]));
+      } else if (e.key === getProfileKey(STORAGE_KEYS.syncState)) {
+        setSyncState(loadSyncState());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    // Keeps the blood-level curve sliding forward while the app stays open.
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), 5000);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  // Timers call runSync long after the render that scheduled them, so it reads these instead.
+  const syncInputs = useRef({ logs, config });
+  syncInputs.current = { logs, config };
+  const syncInProgress = useRef(false);
+
+  // Everything is saved on this device first; syncing only runs when online and is retried later on failure.
+  const runSync = async () => {
+    if (!dataLoaded || !syncSettings.enabled || !syncSettings.serverUrl || syncInProgress.current || !navigator.onLine) return;
+    syncInProgress.current = true;
+    setSyncing(true);
+    try {
+      const outcome = await syncNow(syncSettings, syncInputs.current.logs, syncInputs.current.config);
+      if (outcome.logs) logSync.applyChange(outcome.logs);
+      if (outcome.config) {
+        externalConfig.current = outcome.config;
+        setConfig(outcome.config);
+      }
+      if (outcome.issues.length > 0) setStorageIssues(prev => [...prev, ...outcome.issues]);
+      setSyncError(null);
+    } catch (e) {
+      setSyncError(e instanceof Error ? e.message : String(e));
+    } finally {
+      syncInProgress.current = false;
+      setSyncState(loadSyncState());
+      setSyncing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!dataLoaded || !syncSettings.enabled) return;
+    runSync();
+    const timer = setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', runSync);
+    };
+  }, [dataLoaded, syncSettings]);
+
+  // Local edits are sent shortly after they're made, once a burst of them has settled.
+  useEffect(() => {
+    if (syncRequests === 0) return;
+    const timer = setTimeout(runSync, SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [syncRequests]);
+
+  const updateSyncSettings = (next: SyncSettings) => {
+    const serverChanged = next.serverUrl !== syncSettings.serverUrl || next.token !== syncSettings.token;
+    if (next.enabled && (serverChanged || !syncSettings.enabled)) {
+      resetSync(logs.map(l => l.id));
+      setSyncState(loadSyncState());
+    }
+    setSyncError(null);
+    setSyncSettings(next);
+  };
+
+  const commitLogs = (label: string, updater: (prev: DoseEvent[]) => DoseEvent[]) => {
+    logHistory.commit(label, updater);
+    setToast({ id: Date.now(), message: label, action: 'undo' });
+  };
+
+  const undo = () => {
+    if (!logHistory.undoLabel) return;
+    logHistory.undo();
+    setToast({ id: Date.now(), message: `Undone: ${logHistory.undoLabel}`, action: 'redo' });
+  };
+
+  const redo = () => {
+    if (!logHistory.redoLabel) return;
+    logHistory.redo();
+    setToast({ id: Date.now(), message: `Redone: ${logHistory.redoLabel}`, action: 'undo' });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave text fields to their native undo behaviour.
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // `measure` only applies to products with a vape profile; everything else is logged in its own unit.
+  const addLog = (quantity: number, product: Product, timestamp: Date = new Date(), measure: VapeMeasure = 'puff') => {
+    const event = createDoseEvent(product, quantity, { timestamp, measure, modelName: config?.absorptionModel.name });
+    const unitName = event.vapeMeasure ? ` ${VAPE_MEASURE_NAMES[event.vapeMeasure]}` : ' ×';
+    commitLogs(`Added ${quantity}${unitName} ${product.name}`, prev => [...prev, event]);
+  };
+
+  const addCustomLog = (input: HTMLInputElement) => {
+    if (!customProduct) return;
+    const val = parseFloat(input.value);
+    const timestamp = customTimestamp ? new Date(customTimestamp) : new Date();
+    const inputError = getLogInputError(val, timestamp);
+    setCustomError(inputError);
+    if (inputError) return;
+    addLog(val, customProduct, timestamp, customMeasure);
+    input.value = '';
+  };
+
+  const updateLog = (id: string, changes: Partial<Omit<DoseEvent, 'id'>>) => {
+    commitLogs('Edited entry', prev => prev.map(l => l.id === id ? { ...l, ...changes } : l));
+  };
+
+  useEffect(() => {
+    // Home-screen shortcuts open the app with ?add=<delivery type>.
+    if (!dataLoaded || !config) return;
+    const deliveryType = new URLSearchParams(window.location.search).get('add');
+    if (!deliveryType) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    const product = config.products.find(p => p.deliveryType === deliveryType);
+    if (product) {
+      addLog(1, product);
+    } else {
+      setToast({ id: Date.now(), message: 'No saved product of that type. Add one in Settings.' });
+    }
+  }, [dataLoaded]);
+
+  const model = config?.absorptionModel || DEFAULT_ABSORPTION_MODEL;
+  const dailyLimitMg = config?.dailyLimitMg ?? DAILY_LIMIT_MG;
+  const dayStartHour = config?.dayStartHour ?? DAY_START_HOUR;
+
+  const chartData = useMemo(() => {
+    const end = getLogicalDay(new Date(), dayStartHour);
+    const start = subDays(end, viewDays - 1);
+    const totals = getDailyTotals(logs, dayStartHour);
+
+    return eachDayOfInterval({ start, end }).map(day => ({
+      ...getDaySummary(day, totals, taperPlan, model),
+      date: format(day, 'MMM dd'),
+    }));
+  }, [logs, viewDays, taperPlan, model, dayStartHour]);
+
+  const plasmaCurve = useMemo(() => getPlasmaCurve(logs, now, curveHours), [logs, now, curveHours]);
+
+  const cravingStats = useMemo(
+    () => analyzeCravings(cravings, addHours(subDays(getLogicalDay(new Date(), dayStartHour), viewDays - 1), dayStartHour)),
+    [cravings, viewDays, dayStartHour]
+  );
+
+  const recentCravings = useMemo(
+    () => [...cravings].sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, 5),
+    [cravings]
+  );
+
+  const todayTotal = useMemo(() => {
+    const today = chartData[chartData.length - 1];
+    return today ? today.mg : 0;
+  }, [chartData]);
+
+  // Completed days in the current view; today is still in progress.
+  const recentAverage = useMemo(() => {
+    const days = chartData.slice(0, -1);
+    if (days.length === 0) return 0;
+    return Number((days.reduce((sum, d) => sum + d.mg, 0) / days.length).toFixed(1));
+  }, [chartData]);
+
+  const logicalToday = getLogicalDay(new Date(), dayStartHour);
+  const todayAllowance = taperPlan && format(logicalToday, 'yyyy-MM-dd') >= taperPlan.startDate
+    ? Number(getTaperAllowance(taperPlan, logicalToday).toFixed(1))
+    : null;
+
+  const hasPatch = !!config?.products.some(p => p.deliveryType === 'patch');
+  const todayTargetMg = todayAllowance ?? dailyLimitMg;
+
+  useEffect(() => {
+    if (!dataLoaded || !config || notificationPermission !== 'granted') return;
+    const due = getDueReminders(reminders, { hasPatch, todayMg: todayTotal, todayTargetMg }, now, dayStartHour);
+    due.forEach(type => {
+      markReminderFired(type, now, dayStartHour);
+      switch (type) {
+        case 'checkIn':
+          showNotification('Did you log everything today?', `So far today: ${todayTotal} mg. Tap to add anything you missed.`, type);
+          break;
+        case 'patchChange':
+          showNotification('Time to change your patch', 'Remove the old patch and apply a fresh one to a new spot.', type);
+          break;
+        case 'nearLimit':
+          showNotification("Close to today's limit", `${todayTotal} of ${Number(todayTargetMg.toFixed(1))} mg so far today.`, type);
+          break;
+      }
+    });
+  }, [now, todayTotal, todayTargetMg, reminders, dataLoaded, dayStartHour, hasPatch, config, notificationPermission]);
+
+  const enableReminder = async (type: ReminderType) => {
+    const permission = await requestNotificationPermission();
+    setNotificationPermission(permission);
+    if (permission !== 'granted') return;
+    const enabledKey = type === 'checkIn' ? 'checkInEnabled' : type === 'patchChange' ? 'patchChangeEnabled' : 'nearLimitEnabled';
+    setReminders(prev => ({ ...prev, [enabledKey]: true }));
+  };
+
+  const dailyTotals = useMemo(() => getDailyTotals(logs, dayStartHour), [logs, dayStartHour]);
+
+  const longRange = useMemo(() => {
+    const today = getLogicalDay(now, dayStartHour);
+    const custom = getRangeSummary(dailyTotals, new Date(customRange.start + 'T00:00:00'), new Date(customRange.end + 'T00:00:00'));
+    return {
+      weekly: getWeeklyTotals(dailyTotals, today).map(week => ({ ...week, label: format(new Date(week.start + 'T00:00:00'), 'MMM dd') })),
+      monthly: getMonthlyTotals(dailyTotals, today).map(month => ({ ...month, label: format(new Date(month.start + 'T00:00:00'), 'MMM yy') })),
+      custom: custom.days.map(d => ({ label: format(new Date(d.date + 'T00:00:00'), 'MMM dd'), total: d.mg })),
+      customAverage: custom.averageMg,
+      customPeak: custom.peak
+        ? { label: format(new Date(custom.peak.date + 'T00:00:00'), 'MMM dd'), total: custom.peak.mg }
+        : { label: '—', total: 0 },
+      weekOverWeek: getWeekOverWeek(dailyTotals, today),
+      monthOverMonth: getMonthOverMonth(dailyTotals, today),
+    };
+  }, [dailyTotals, customRange, now, dayStartHour]);
+
+  const trends = useMemo(() => {
+    const analysis = analyzeRecentIntake(logs, getLogicalDay(now, dayStartHour), trendDays, dayStartHour);
+    return {
+      ...analysis,
+      chart: analysis.days.map(d => ({
+        label: format(new Date(d.date + 'T00:00:00'), 'MMM dd'),
+        total: Number(d.mg.toFixed(1)),
+        rollingAverage: Number(d.rollingAverage.toFixed(1)),
+        trend: Number(Math.max(0, d.trend).toFixed(1)),
+      })),
+      weekdays: analysis.dayOfWeekAverages.map((average, i) => ({ label: WEEKDAY_LABELS[i], average: Number((average || 0).toFixed(1)) })),
+    };
+  }, [logs, trendDays, now, dayStartHour]);
+
+  const streaks = useMemo(
+    () => getStreakStats(logs, taperPlan, dailyLimitMg, now, dayStartHour),
+    [logs, taperPlan, dailyLimitMg, now, dayStartHour]
+  );
+
+  const milestones = getMilestoneProgress(streaks);
+  const nextMilestone = milestones.find(m => !m.reached);
+
+  const dailySpend = useMemo(
+    () => getDailySpend(logs, spending.purchases, config?.products || [], dayStartHour),
+    [logs, spending.purchases, config, dayStartHour]
+  );
+
+  const spendSummary = useMemo(() => {
+    const today = getLogicalDay(now, dayStartHour);
+    const firstLogDate = logs.length > 0 ? logs.map(l => getLogDate(l, dayStartHour)).sort()[0] : undefined;
+    return {
+      today: dailySpend.spend.get(format(today, 'yyyy-MM-dd')) || 0,
+      week: sumDays(dailySpend.spend, subDays(today, 6), today),
+      month: sumDays(dailySpend.spend, subDays(today, 29), today),
+      saved: getMoneySaved(dailySpend.spend, spending, firstLogDate, now, dayStartHour),
+    };
+  }, [dailySpend, spending, logs, now, dayStartHour]);
+
+  const clearAll = () => {
+    if (confirm('Are you sure you want to clear all data?')) {
+      commitLogs('Cleared all data', () => []);
+    }
+  };
+
+  const removeLog = (id: string) => {
+    commitLogs('Deleted entry', prev => prev.filter(l => l.id !== id));
+  };
+
+  const exportJson = () => {
+    const backup = createBackup({ config, logs, taperPlan, cravings, spending, quiz: quizResult });
+    downloadFile(`nictrack-backup-${format(new Date(), 'yyyy-MM-dd')}.json`, JSON.stringify(backup, null, 2), 'application/json');
+  };
+
+  const exportCsv = () => {
+    downloadFile(`nictrack-logs-${format(new Date(), 'yyyy-MM-dd')}.csv`, logsToCsv(logs, dayStartHour), 'text/csv');
+  };
+
+  const openReport = () => {
+    setReport(buildProgressReport(
+      logs,
+      new Date(reportRange.start + 'T00:00:00'),
+      new Date(reportRange.end + 'T00:00:00'),
+      { profileName: getActiveProfile(registry).name, model, taperPlan, dayStartHour }
+    ));
+  };
+
+  const handleImportFile = async (file: File) => {
+    const text = await file.text();
+    const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+    setPendingImport(isCsv ? parseBackupCsv(file.name, text) : parseBackupJson(file.name, text));
+  };
+
+  const importBackup = (mode: 'merge' | 'replace') => {
+    if (!pendingImport) return;
+    const count = pendingImport.logs.length;
+    const current = { config, logs, taperPlan, cravings, spending, quiz: quizResult };
+    const next = applyImport(current, pendingImport, mode);
+    commitLogs(mode === 'replace' ? `Replaced logs with ${count} imported entries` : `Merged ${count} imported entries`, () => next.logs);
+    setConfig(next.config);
+    setTaperPlan(next.taperPlan);
+    setCravings(next.cravings);
+    setSpending(next.spending);
+    setQuizResult(next.quiz);
+    setPendingImport(null);
+  };
+
+  const addCraving = (craving: Omit<Craving, 'id' | 'timestamp'>) => {
+    setCravings(prev => [...prev, { ...craving, id: crypto.randomUUID(), timestamp: new Date().toISOString() }]);
+    setToast({
+      id: Date.now(),
+      message: craving.outcome === 'resisted' ? 'Craving resisted. Nice work!' : 'Craving logged. Remember to log what you used.',
+    });
+  };
+
+  const removeCraving = (id: string) => {
+    setCravings(prev => prev.filter(c => c.id !== id));
+  };
+
+  const saveProduct = (product: Product) => {
+    if (!config) return;
+    const exists = config.products.some(p => p.id === product.id);
+    setConfig({
+      ...config,
+      products: exists ? config.products.map(p => p.id === product.id ? product : p) : [...config.products, product],
+    });
+    setEditingProductId(null);
+  };
+
+  const removeProduct = (id: string) => {
+    if (!config) return;
+    setConfig({ ...config, products: config.products.filter(p => p.id !== id) });
+  };
+
+  const products = config?.products || [];
+  const customProduct = products.find(p => p.id === customProductId)
+    || products.find(p => p.deliveryType === config?.unit)
+    || products[0];
+
+  const dailyHistory = useMemo(() => getDailyHistory(logs, dayStartHour), [logs, dayStartHour]);
+
+  if (!dataLoaded) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-500 flex items-center justify-center">
+        <p className="text-sm animate-pulse">Loading your history…</p>
+      </div>
+    );
+  }
+
+  if (showQuiz) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 p-4 md:p-8 flex flex-col items-center justify-center gap-6">
+        {storageIssues.length > 0 && (
+          <div className="max-w-md w-full">
+            <StorageNotice issues={storageIssues} onDismiss={() => setStorageIssues([])} />
+          </div>
+        )}
+        <ProfileSwitcher registry={registry} />
+        <Quiz 
+          onComplete={(newConfig, result, plan, initialValue) => {
+            const { products, product } = addProductToLibrary(config?.products || [], newConfig.products[0]);
+            setConfig({ ...newConfig, products });
+            setQuizResult(result);
+            if (plan) setTaperPlan(plan);
+            setShowQuiz(false);
+            if (initialValue !== undefined) {
+              addLog(initialValue, product);
+            }
+          }} 
+          currentConfig={config}
+          previousResult={quizResult}
+          currentPlan={taperPlan}
+          logs={logs}
+        />
+        <Analytics />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 p-4 md:p-8">
+      <div className={`max-w-4xl mx-auto space-y-8 ${report ? 'print:hidden' : ''}`}>
+        <header className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-blue-600 dark:text-blue-400">NicTrack</h1>
+            <p className="text-gray-500 dark:text-gray-400 text-sm">Track your daily nicotine journey</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <ProfileSwitcher registry={registry} />
+            <button 
+              onClick={undo}
+              disabled={!logHistory.undoLabel}
+              className="p-2 text-gray-400 hover:text-blue-500 transition-colors disabled:opacity-30 disabled:hover:text-gray-400"
+              title={logHistory.undoLabel ? `Undo: ${logHistory.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <Undo2 size={20} />
+            </button>
+            <button 
+              onClick={redo}
+              disabled={!logHistory.redoLabel}
+              className="p-2 text-gray-400 hover:text-blue-500 transition-colors disabled:opacity-30 disabled:hover:text-gray-400"
+              title={logHistory.redoLabel ? `Redo: ${logHistory.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <Redo2 size={20} />
+            </button>
+            <button 
+              onClick={() => setShowSettings(!showSettings)}
+              className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+              title="Settings"
+            >
+              <Settings size={20} />
+            </button>
+            <button 
+              onClick={clearAll}
+              className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+              title="Clear all data"
+            >
+              <Trash2 size={20} />
+            </button>
+          </div>
+        </header>
+
+        {storageIssues.length > 0 && (
+          <StorageNotice issues={storageIssues} onDismiss={() => setStorageIssues([])} />
+        )}
+
+        {showSettings && config && (
+          <section className="bg-blue-50 dark:bg-gray-800 p-6 rounded-2xl border border-blue-100 dark:border-gray-700 space-y-4">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Settings size={20} className="text-blue-500" />
+              Settings
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
               <div>
-                <label className="block text-sm font-medium text-gray-500 mb-1">Pouch Strength</label>
+                <label className="block text-sm font-medium text-gray-500 mb-1">Preferred Unit</label>
                 <select 
-                  value={config.pouchStrength || 6}
-                  onChange={(e) => setConfig({...config, pouchStrength: parseInt(e.target.value) as 3 | 6})}
+                  value={config.unit}
+                  onChange={(e) => setConfig({...config, unit: e.target.value as PreferredUnit})}
                   className="w-full p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600"
                 >
-                  <option value={3}>3 mg</option>
-                  <option value={6}>6 mg</option>
+                  <option value="cigs">Cigarettes per day</option>
+                  <option value="pouches">Pouches per day</option>
+                  <option value="puffs">Vape puffs per day</option>
+                  <option value="vape_cadence">Vape cadence</option>
+                  <option value="lozenge">Lozenges</option>
+                  <option value="patch">Patches</option>
                 </select>
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-500 mb-1">Days per Vape</label>
-                <input 
-                  type="number"
-                  step="0.5"
-                  min="0.5"
-                  value={config.daysPerVape || 1}
-                  onChange={(e) => setConfig({...config, daysPerVape: parseFloat(e.target.value)})}
-                  className="w-full p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600"
-                />
+            </div>
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-semibold text-gray-500 flex items-center gap-2">
+                  <Package size={16} />
+                  Product Library
+                </h3>
+                {editingProductId === null && (
+                  <button
+                    onClick={() => setEditingProductId('new')}
+                    className="text-sm text-blue-600 dark:text-blue-400 font-semibold hover:underline"
+                  >
+                    Add product
+                  </button>
+                )}
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-500 mb-1">Lozenge Strength (mg)</label>
-                <input 
-                  type="number"
-                  step="0.5"
-                  min="0.5"
-                  value={config.lozengeStrength || 4}
-                  onChange={(e) => setConfig({...config, lozengeStrength: parseFloat(e.target.value)})}
-                  className="w-full p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600"
-                />
+              {config.products.length === 0 && editingProductId === null && (
+                <p className="text-sm text-gray-500 italic">No products yet. Add the products you use to get Quick Add buttons.</p>
+              )}
+              {config.products.map(product => editingProductId === product.id ? (
+                <ProductForm key={product.id} product={product} model={config.absorptionModel} onSave={saveProduct} onCancel={() => setEditingProductId(null)} />
+              ) : (
+                <div key={product.id} className="flex justify-between items-center p-3 rounded-xl bg-white dark:bg-gray-700/50 border border-gray-100 dark:border-gray-700">
+                  <div className="flex items-center gap-3">
+                    <span className="text-xl">{getUnitIcon(product.deliveryType)}</span>
+                    <div>
+                      <p className="font-semibold text-sm">{product.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {DELIVERY_LABELS[product.deliveryType]} · {product.vapeProfile
+                          ? `${product.vapeProfile.nicotineType === 'salt' ? 'Salt' : 'Freebase'} ${product.vapeProfile.mgPerMl}mg/mL, ${product.vapeProfile.podMl}mL pods`
+                          : `${Number(product.strength.toFixed(2))}mg per ${UNIT_NAMES[product.deliveryType]}`} · {Math.round(product.absorptionRate * 100)}% absorbed
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button onClick={() => setEditingProductId(product.id)} className="text-gray-400 hover:text-blue-500 transition-colors" title="Edit">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => removeProduct(product.id)} className="text-gray-400 hover:text-red-500 transition-colors" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {editingProductId === 'new' && (
+                <ProductForm model={config.absorptionModel} onSave={saveProduct} onCancel={() => setEditingProductId(null)} />
+              )}
+            </div>
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-500 flex items-center gap-2">
+                <Activity size={16} />
+                Absorption Model
+              </h3>
+              <AbsorptionModelSettings
+                model={config.absorptionModel}
+                dailyLimitMg={config.dailyLimitMg}
+                dayStartHour={dayStartHour}
+                onChangeModel={(next) => setConfig({
+                  ...config,
+                  absorptionModel: next,
+                  products: applyModelToProducts(config.products, config.absorptionModel, next),
+                })}
+                onChangeDailyLimit={(mg) => setConfig({ ...config, dailyLimitMg: mg })}
+                onChangeDayStart={(hour) => setConfig({ ...config, dayStartHour: hour })}
+              />
+            </div>
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-500 flex items-center gap-2">
+                <Users size={16} />
+                Profile
+              </h3>
+              <ProfileSettings registry={registry} onChange={onRegistryChange} />
+            </div>
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-500 flex items-center gap-2">
+                <Bell size={16} />
+                Reminders
+              </h3>
+              <ReminderSettingsForm
+                settings={reminders}
+                hasPatch={hasPatch}
+                permission={notificationPermission}
+                onChange={setReminders}
+                onEnable={enableReminder}
+              />
+            </div>
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-500 flex items-center gap-2">
+                <Cloud size={16} />
+                Sync
+              </h3>
+              <SyncSettingsForm
+                settings={syncSettings}
+                state={syncState}
+                syncing={syncing}
+                error={syncError}
+                onChange={updateSyncSettings}
+                onSyncNow={runSync}
+              />
+            </div>
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-500">Backup & Restore</h3>
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={exportJson}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-sm font-semibold"
+                >
+                  <Download size={16} /> Export JSON
+                </button>
+                <button
+                  onClick={exportCsv}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-sm font-semibold"
+                >
+                  <Download size={16} /> Export CSV
+                </button>
+                <label className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-sm font-semibold cursor-pointer">
+                  <Upload size={16} /> Import…
+                  <input
+                    type="file"
+                    accept=".json,.csv,application/json,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImportFile(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-500 mb-1">Patch Strength (mg)</label>
-                <input 
-                  type="number"
-                  step="0.5"
-                  min="0.5"
-                  value={config.patchStrength || 21}
-                  onChange={(e) => setConfig({...config, patchStrength: parseFloat(e.target.value)})}
-                  className="w-full p-2 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600"
+              {pendingImport && (
+                <div className="p-4 rounded-xl bg-white dark:bg-gray-900 border border-gray-100 dark:border-gray-700 space-y-3">
+                  <p className="text-sm">
+                    <span className="font-semibold">{pendingImport.fileName}</span>: {pendingImport.logs.length} valid {pendingImport.logs.length === 1 ? 'entry' : 'entries'}
+                    {pendingImport.cravings && pendingImport.cravings.length > 0 && `, ${pendingImport.cravings.length} cravings`}
+                    {pendingImport.errors.length > 0 && `, ${pendingImport.errors.length} skipped`}
+                  </p>
+                  {pendingImport.errors.length > 0 && (
+                    <ul className="text-xs text-red-500 space-y-1 max-h-32 overflow-y-auto">
+                      {pendingImport.errors.map((error, i) => <li key={i}>{error}</li>)}
+                    </ul>
+                  )}
+                  <div className="flex flex-wrap gap-3">
+                    <button
+                      onClick={() => importBackup('merge')}
+                      disabled={pendingImport.logs.length === 0}
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-bold transition-colors disabled:opacity-50"
+                    >
+                      Merge
+                    </button>
+                    <button
+                      onClick={() => importBackup('replace')}
+                      disabled={pendingImport.logs.length === 0}
+                      className="px-4 py-2 rounded-lg border border-red-200 text-red-500 font-bold disabled:opacity-50"
+                    >
+                      Replace
+                    </button>
+                    <button onClick={() => setPendingImport(null)} className="px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-600 font-semibold">
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-500 flex items-center gap-2">
+                <FileText size={16} /> Progress Report
+              </h3>
+              <p className="text-xs text-gray-400">A printable summary of a date range to share with your doctor, also downloadable as a PDF.</p>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <input
+                  type="date"
+                  value={reportRange.start}
+                  max={reportRange.end}
+                  onChange={(e) => e.target.value && setReportRange({ ...reportRange, start: e.target.value })}
+                  className="p-2 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-600"
                 />
+                <span className="text-gray-500">to</span>
+                <input
+                  type="date"
+                  value={reportRange.end}
+                  min={reportRange.start}
+                  onChange={(e) => e.target.value && setReportRange({ ...reportRange, end: e.target.value })}
+                  className="p-2 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-600"
+                />
+                <button
+                  onClick={openReport}
+                  disabled={reportRange.start > reportRange.end}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-bold transition-colors disabled:opacity-50"
+                >
+                  Create report
+                </button>
               </div>
             </div>
+            {quizResult && (
+              <p className="text-sm text-gray-500">
+                Dependence score <span className="font-semibold text-gray-900 dark:text-gray-100">{quizResult.score}/10 ({getDependenceLevel(quizResult.score)})</span>,
+                baseline {quizResult.baselineMg.toFixed(1)} mg/day, from the quiz on {format(new Date(quizResult.completedAt), 'MMM d, yyyy')}.
+              </p>
+            )}
             <button 
               onClick={() => setShowQuiz(true)}
               className="text-sm text-blue-600 dark:text-blue-400 font-semibold hover:underline"
@@ -522,113 +2750,380 @@ const App: React.FC = () => {
           </section>
         )}
 
-        {/* Quick Add Section */}
-        <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-6">
+        {/* Quick Add Section */}
+        <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-6">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <PlusCircle size={20} className="text-blue-500" />
+            Quick Add Usage
+          </h2>
+          
+          {products.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Add products in Settings to get one-tap buttons here.</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {products.map(product => (
+                <button 
+                  key={product.id}
+                  onClick={() => addLog(1, product)}
+                  className="p-3 rounded-xl border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 hover:border-blue-500 transition-all text-left"
+                >
+                  <span className="text-xl block mb-1">{getUnitIcon(product.deliveryType)}</span>
+                  <span className="text-xs font-bold block">
+                    {product.name}{showsStrength(product.deliveryType) && ` (${product.strength}mg)`}
+                  </span>
+                  <span className="text-[10px] text-gray-500 italic">+1 {UNIT_NAMES[product.deliveryType]}</span>
+                </button>
+              ))}
+              {products.filter(hasVapeProfile).map(product => (
+                <button 
+                  key={`${product.id}-pod`}
+                  onClick={() => addLog(1, product, new Date(), 'pod')}
+                  className="p-3 rounded-xl border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 hover:border-blue-500 transition-all text-left"
+                >
+                  <span className="text-xl block mb-1">🫙</span>
+                  <span className="text-xs font-bold block">{product.name}</span>
+                  <span className="text-[10px] text-gray-500 italic">Finished a pod ({product.vapeProfile.podMl} mL)</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {customProduct && (
+            <div className="pt-4 border-t border-gray-100 dark:border-gray-700">
+              <p className="text-sm font-medium mb-3 text-gray-500">Log custom amount</p>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <select
+                  value={customProduct.id}
+                  onChange={(e) => setCustomProductId(e.target.value)}
+                  className="p-3 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none"
+                >
+                  {products.map(product => (
+                    <option key={product.id} value={product.id}>{product.name}</option>
+                  ))}
+                </select>
+                {customProduct.vapeProfile && (
+                  <select
+                    value={customMeasure}
+                    onChange={(e) => setCustomMeasure(e.target.value as VapeMeasure)}
+                    className="p-3 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none"
+                  >
+                    <option value="puff">Puffs</option>
+                    <option value="pod">Finished pods</option>
+                    <option value="ml">Refilled mL</option>
+                  </select>
+                )}
+                <input 
+                  type="number"
+                  min="0"
+                  placeholder={customProduct.vapeProfile && customMeasure !== 'puff'
+                    ? `Number of ${VAPE_MEASURE_NAMES[customMeasure]}${customMeasure === 'pod' ? 's' : ''}`
+                    : `Number of ${UNIT_NAMES[customProduct.deliveryType]}s`}
+                  className="flex-1 p-3 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none transition-all"
+                  id="quick-add-input"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') addCustomLog(e.target as HTMLInputElement);
+                  }}
+                />
+                <input
+                  type="datetime-local"
+                  value={customTimestamp}
+                  max={format(now, "yyyy-MM-dd'T'HH:mm")}
+                  onChange={(e) => setCustomTimestamp(e.target.value)}
+                  title="When (leave empty for now)"
+                  className="p-3 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none"
+                />
+                <button
+                  onClick={() => addCustomLog(document.getElementById('quick-add-input') as HTMLInputElement)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-xl font-bold transition-colors"
+                >
+                  Add
+                </button>
+              </div>
+              {customError && <p className="text-xs text-red-500 mt-2">{customError}</p>}
+              {customTimestamp && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Logging for {format(new Date(customTimestamp), 'EEE, MMM dd, HH:mm')}.{' '}
+                  <button onClick={() => setCustomTimestamp('')} className="text-blue-600 dark:text-blue-400 font-semibold hover:underline">Use now</button>
+                </p>
+              )}
+            </div>
+          )}
+          {customProduct?.deliveryType === 'vape_cadence' && (
+             <p className="text-xs text-gray-500 mt-2 italic">Tip: Log "1" to represent one full day of your typical cadence.</p>
+          )}
+        </section>
+
+        {/* Craving Log */}
+        <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-4">
           <h2 className="text-lg font-semibold flex items-center gap-2">
-            <PlusCircle size={20} className="text-blue-500" />
-            Quick Add Usage
+            <Flame size={20} className="text-orange-500" />
+            Log a Craving
           </h2>
-          
-          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-            <button 
-              onClick={() => addLog(1, 'pouches')}
-              className="p-3 rounded-xl border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 hover:border-blue-500 transition-all text-left"
-            >
-              <span className="text-xl block mb-1">📦</span>
-              <span className="text-xs font-bold block">Zyn ({config?.pouchStrength || 6}mg)</span>
-              <span className="text-[10px] text-gray-500 italic">+1 pouch</span>
-            </button>
-            <button 
-              onClick={() => addLog(1, 'lozenge')}
-              className="p-3 rounded-xl border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 hover:border-blue-500 transition-all text-left"
-            >
-              <span className="text-xl block mb-1">🍬</span>
-              <span className="text-xs font-bold block">Lozenge ({config?.lozengeStrength || 4}mg)</span>
-              <span className="text-[10px] text-gray-500 italic">+1 unit</span>
-            </button>
-            <button 
-              onClick={() => addLog(1, 'patch')}
-              className="p-3 rounded-xl border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 hover:border-blue-500 transition-all text-left"
-            >
-              <span className="text-xl block mb-1">🩹</span>
-              <span className="text-xs font-bold block">Patch ({config?.patchStrength || 21}mg)</span>
-              <span className="text-[10px] text-gray-500 italic">+1 patch</span>
-            </button>
-            <button 
-              onClick={() => addLog(1, 'cigs')}
-              className="p-3 rounded-xl border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 hover:border-blue-500 transition-all text-left"
-            >
-              <span className="text-xl block mb-1">🚬</span>
-              <span className="text-xs font-bold block">Cigarette</span>
-              <span className="text-[10px] text-gray-500 italic">+1 cig</span>
-            </button>
-          </div>
+          <CravingForm onLog={addCraving} />
+        </section>
 
-          <div className="pt-4 border-t border-gray-100 dark:border-gray-700">
-            <p className="text-sm font-medium mb-3 text-gray-500">Log custom {config?.unit.replace('_', ' ')}</p>
-            <div className="flex items-center gap-4">
-              <input 
-                type="number"
-                min="0"
-                placeholder={`Number of ${config?.unit.replace('_', ' ')}`}
-                className="flex-1 p-3 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-blue-500 outline-none transition-all"
-                id="quick-add-input"
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') {
-                    const val = parseFloat((e.target as HTMLInputElement).value);
-                    if (!isNaN(val) && config) {
-                      addLog(val, config.unit);
-                      (e.target as HTMLInputElement).value = '';
-                    }
-                  }
-                }}
-              />
+        {/* Taper Plan */}
+        <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Target size={20} className="text-blue-500" />
+              Taper Plan
+            </h2>
+            {!showTaperForm && (
               <button
-                onClick={() => {
-                  const input = document.getElementById('quick-add-input') as HTMLInputElement;
-                  const val = parseFloat(input.value);
-                  if (!isNaN(val) && config) {
-                    addLog(val, config.unit);
-                    input.value = '';
-                  }
-                }}
-                className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-xl font-bold transition-colors"
+                onClick={() => setShowTaperForm(true)}
+                className="text-sm text-blue-600 dark:text-blue-400 font-semibold hover:underline"
               >
-                Add
+                {taperPlan ? 'Edit plan' : 'Create plan'}
               </button>
-            </div>
+            )}
           </div>
-          {config?.unit === 'vape_cadence' && (
-             <p className="text-xs text-gray-500 mt-2 italic">Tip: Log "1" to represent one full day of your typical cadence.</p>
+          {showTaperForm ? (
+            <TaperPlanForm
+              plan={taperPlan}
+              suggestedStartMg={recentAverage}
+              onSave={(plan) => {
+                setTaperPlan(plan);
+                setShowTaperForm(false);
+              }}
+              onRemove={() => {
+                setTaperPlan(null);
+                setShowTaperForm(false);
+              }}
+              onCancel={() => setShowTaperForm(false)}
+            />
+          ) : taperPlan ? (
+            <p className="text-sm text-gray-500">
+              {taperPlan.startMg} mg/day on {format(new Date(taperPlan.startDate + 'T12:00:00'), 'MMM dd')} → {taperPlan.targetMg} mg/day by {format(new Date(taperPlan.targetDate + 'T12:00:00'), 'MMM dd, yyyy')}
+              <span className="capitalize"> · {taperPlan.curve === 'step' ? 'step-down' : taperPlan.curve === 'percentage' ? `${taperPlan.weeklyReductionPercent}% per week` : 'linear'}</span>
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500 italic">No plan yet. Set a target date to get a daily allowance.</p>
           )}
         </section>
 
         {/* Stats Summary */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className={`grid grid-cols-1 gap-6 ${todayAllowance !== null ? 'md:grid-cols-2 lg:grid-cols-4' : 'md:grid-cols-3'}`}>
           <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
             <p className="text-sm text-gray-500 dark:text-gray-400 uppercase tracking-wider font-semibold">Absorbed (Est)</p>
             <div className="flex items-baseline gap-2 mt-2">
               <span className="text-5xl font-black text-gray-900 dark:text-white">{todayTotal}</span>
               <span className="text-xl font-medium text-gray-500">mg</span>
             </div>
-            <p className="text-[10px] text-gray-400 mt-1 italic">*Estimate based on high-end conservative absorption.</p>
+            <p className="text-[10px] text-gray-400 mt-1 italic">*Estimate based on the {model.name} absorption model.</p>
           </div>
+          {todayAllowance !== null && (
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+              <p className="text-sm text-gray-500 dark:text-gray-400 uppercase tracking-wider font-semibold">
+                {todayTotal > todayAllowance ? 'Over Budget' : 'Budget Left'}
+              </p>
+              <div className="flex items-baseline gap-2 mt-2">
+                <span className={`text-5xl font-black ${todayTotal > todayAllowance ? 'text-red-500' : 'text-green-500'}`}>
+                  {Math.abs(todayAllowance - todayTotal).toFixed(1)}
+                </span>
+                <span className="text-xl font-medium text-gray-500">mg</span>
+              </div>
+              <p className="text-[10px] text-gray-400 mt-1 italic">Today's allowance: {todayAllowance} mg</p>
+            </div>
+          )}
           <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
             <p className="text-sm text-gray-500 dark:text-gray-400 uppercase tracking-wider font-semibold">Equiv. Cigs (Est)</p>
             <div className="flex items-baseline gap-2 mt-2">
-              <span className="text-5xl font-black text-orange-500">{(todayTotal / NICOTINE_MG_PER_CIG).toFixed(1)}</span>
+              <span className="text-5xl font-black text-orange-500">{(todayTotal / model.mgPerCig).toFixed(1)}</span>
               <span className="text-xl font-medium text-gray-500">cigs</span>
             </div>
           </div>
           <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
             <p className="text-sm text-gray-500 dark:text-gray-400 uppercase tracking-wider font-semibold">Equiv. Puffs (Est)</p>
             <div className="flex items-baseline gap-2 mt-2">
-              <span className="text-5xl font-black text-blue-500">{(todayTotal / ABSORBED_MG_PER_PUFF).toFixed(0)}</span>
+              <span className="text-5xl font-black text-blue-500">{(todayTotal / model.mgPerPuff).toFixed(0)}</span>
               <span className="text-xl font-medium text-gray-500">puffs</span>
             </div>
           </div>
         </div>
 
+        {/* Streaks & Milestones */}
+        <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-6">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Trophy size={20} className="text-yellow-500" />
+            Streaks & Milestones
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <p className="text-sm text-gray-500 dark:text-gray-400 uppercase tracking-wider font-semibold">
+                {streaks.currentFree > 0 ? 'Nicotine-Free' : 'Under Target'}
+              </p>
+              <div className="flex items-baseline gap-2 mt-2">
+                <span className="text-5xl font-black text-green-500">
+                  {streaks.currentFree > 0 ? streaks.currentFree : streaks.currentUnderTarget}
+                </span>
+                <span className="text-xl font-medium text-gray-500">days</span>
+              </div>
+              <p className="text-[10px] text-gray-400 mt-1 italic">
+                Target: {taperPlan ? 'taper plan allowance' : `${dailyLimitMg} mg/day`}. Today counts once it's over.
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500 dark:text-gray-400 uppercase tracking-wider font-semibold">Longest Streak</p>
+              <div className="flex items-baseline gap-2 mt-2">
+                <span className="text-5xl font-black text-blue-500">{streaks.longestUnderTarget}</span>
+                <span className="text-xl font-medium text-gray-500">days</span>
+              </div>
+              <p className="text-[10px] text-gray-400 mt-1 italic">
+                {streaks.longestFree > 0 ? `Longest nicotine-free run: ${streaks.longestFree} days` : 'Days under target in a row'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500 dark:text-gray-400 uppercase tracking-wider font-semibold">Next Milestone</p>
+              {nextMilestone ? (
+                <div className="mt-2 space-y-2">
+                  <p className="font-bold">{nextMilestone.icon} {nextMilestone.label}</p>
+                  <div className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700">
+                    <div className="h-2 rounded-full bg-yellow-500" style={{ width: `${(nextMilestone.current / nextMilestone.goal) * 100}%` }} />
+                  </div>
+                  <p className="text-xs text-gray-500">{nextMilestone.current} / {nextMilestone.goal} {nextMilestone.unit}</p>
+                </div>
+              ) : (
+                <p className="mt-2 font-bold text-green-500">All milestones reached 🎉</p>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {milestones.map(m => (
+              <span
+                key={m.id}
+                title={m.reached ? 'Reached' : `${m.current} / ${m.goal} ${m.unit}`}
+                className={`px-3 py-1.5 rounded-full border text-sm ${m.reached ? 'border-yellow-400 bg-yellow-50 dark:bg-yellow-900/20 font-semibold' : 'border-gray-200 dark:border-gray-700 text-gray-400 grayscale opacity-60'}`}
+              >
+                {m.icon} {m.label}
+              </span>
+            ))}
+          </div>
+          {streaks.baselineMg === null && (
+            <p className="text-xs text-gray-500 italic">Reduction milestones unlock after a week of tracking, or once you set a taper plan.</p>
+          )}
+        </section>
+
+        {/* Spending */}
+        <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-6">
+          <div className="flex justify-between items-center gap-4">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Wallet size={20} className="text-green-500" />
+              Spending
+            </h2>
+            <input
+              type="text"
+              maxLength={3}
+              value={spending.currency}
+              title="Currency code, e.g. USD or EUR"
+              onChange={(e) => {
+                const currency = e.target.value.toUpperCase();
+                if (/^[A-Z]{0,3}$/.test(currency)) setSpending({ ...spending, currency: currency.length === 3 ? currency : spending.currency });
+              }}
+              className="w-16 p-1 text-center text-sm rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-600"
+            />
+          </div>
+
+          {spending.purchases.length > 0 ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              <div>
+                <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Today</p>
+                <p className="text-2xl font-black">{formatMoney(spendSummary.today, spending.currency)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Last 7 Days</p>
+                <p className="text-2xl font-black">{formatMoney(spendSummary.week, spending.currency)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Last 30 Days</p>
+                <p className="text-2xl font-black">{formatMoney(spendSummary.month, spending.currency)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">
+                  {spendSummary.saved && spendSummary.saved.saved < 0 ? 'Extra Spent' : 'Money Saved'}
+                </p>
+                {spendSummary.saved ? (
+                  <>
+                    <p className={`text-2xl font-black ${spendSummary.saved.saved < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                      {formatMoney(Math.abs(spendSummary.saved.saved), spending.currency)}
+                    </p>
+                    <p className="text-[10px] text-gray-400 italic">
+                      Since {format(spendSummary.saved.since, 'MMM dd')} vs. {formatMoney(spendSummary.saved.baselineDaily, spending.currency)}/day
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-xs text-gray-500 italic mt-1">Available once the baseline period is over.</p>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 italic">Add what you paid for a pack to see daily, weekly and monthly spend.</p>
+          )}
+          {dailySpend.unpriced > 0 && spending.purchases.length > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {dailySpend.unpriced} {dailySpend.unpriced === 1 ? 'entry has' : 'entries have'} no purchase price for its product and {dailySpend.unpriced === 1 ? 'is' : 'are'} not counted.
+            </p>
+          )}
+
+          <div className="space-y-3 pt-4 border-t border-gray-100 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-500">Purchases</p>
+            {products.length > 0 ? (
+              <PurchaseForm products={products} onSave={(purchase) => setSpending({ ...spending, purchases: [...spending.purchases, purchase] })} />
+            ) : (
+              <p className="text-sm text-gray-500 italic">Add a product in Settings first.</p>
+            )}
+            {[...spending.purchases].sort((a, b) => b.date.localeCompare(a.date)).map(purchase => {
+              const product = products.find(p => p.id === purchase.productId);
+              return (
+                <div key={purchase.id} className="flex justify-between items-center py-2 px-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 border border-gray-100 dark:border-gray-700 text-sm">
+                  <span>
+                    <span className="font-semibold">{product?.name || 'Deleted product'}</span>
+                    <span className="text-gray-500"> · {format(new Date(purchase.date + 'T12:00:00'), 'MMM dd, yyyy')} · {formatMoney(purchase.price, spending.currency)} for {formatPackSize(purchase, product)}</span>
+                  </span>
+                  <button
+                    onClick={() => setSpending({ ...spending, purchases: spending.purchases.filter(p => p.id !== purchase.id) })}
+                    className="text-gray-400 hover:text-red-500 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2 pt-4 border-t border-gray-100 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-500">Baseline Period</p>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <input
+                type="date"
+                value={spending.baselineStart || ''}
+                onChange={(e) => setSpending({
+                  ...spending,
+                  baselineStart: e.target.value || null,
+                  baselineEnd: e.target.value ? (spending.baselineEnd && spending.baselineEnd >= e.target.value ? spending.baselineEnd : e.target.value) : null,
+                })}
+                className="p-2 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-600"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="date"
+                value={spending.baselineEnd || ''}
+                min={spending.baselineStart || undefined}
+                disabled={!spending.baselineStart}
+                onChange={(e) => e.target.value && setSpending({ ...spending, baselineEnd: e.target.value })}
+                className="p-2 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-600 disabled:opacity-50"
+              />
+              {spending.baselineStart && (
+                <button onClick={() => setSpending({ ...spending, baselineStart: null, baselineEnd: null })} className="text-blue-600 dark:text-blue-400 font-semibold hover:underline">
+                  Use first week
+                </button>
+              )}
+            </div>
+            {!spending.baselineStart && <p className="text-[10px] text-gray-400 italic">Defaults to your first tracked week.</p>}
+          </div>
+        </section>
+
         {/* Graph Section */}
         <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
@@ -637,7 +3132,7 @@ const App: React.FC = () => {
               Intake History
             </h2>
             <div className="flex items-center gap-2 bg-gray-100 dark:bg-gray-700 p-1 rounded-lg">
-              {[7, 14, 30].map(days => (
+              {VIEW_DAY_OPTIONS.map(days => (
                 <button
                   key={days}
                   onClick={() => setViewDays(days)}
@@ -655,7 +3150,7 @@ const App: React.FC = () => {
           
           <div className="h-64 w-full">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={chartData}>
+              <ComposedChart data={chartData}>
                 <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#37415120" />
                 <XAxis 
                   dataKey="date" 
@@ -679,19 +3174,431 @@ const App: React.FC = () => {
                     color: '#F9FAFB'
                   }}
                   itemStyle={{ color: '#60A5FA' }}
-                  formatter={(value: any, name: any) => [
+                  formatter={(value, name) => name === 'target' ? [`${value} mg`, 'Target'] : [
                     `${value} ${name === 'mg' ? 'mg' : 'cigs'} (est.)`, 
                     name === 'mg' ? 'Absorbed' : 'Equivalent'
                   ]}
                 />
                 <Bar dataKey="mg" radius={[4, 4, 0, 0]}>
                   {chartData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.mg > 20 ? '#ef4444' : '#3b82f6'} />
+                    <Cell key={`cell-${index}`} fill={entry.mg > dailyLimitMg ? '#ef4444' : '#3b82f6'} />
                   ))}
                 </Bar>
-              </BarChart>
+                {taperPlan && (
+                  <Line type="monotone" dataKey="target" stroke="#22c55e" strokeWidth={2} strokeDasharray="5 5" dot={false} connectNulls={false} />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+
+        {/* Long-Range History */}
+        <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <CalendarDays size={20} className="text-blue-500" />
+              Long-Range History
+            </h2>
+            <div className="flex items-center gap-2 bg-gray-100 dark:bg-gray-700 p-1 rounded-lg">
+              {(['heatmap', 'weekly', 'monthly', 'custom'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setRangeView(view)}
+                  className={`px-3 py-1 rounded-md text-sm capitalize transition-all ${
+                    rangeView === view 
+                    ? 'bg-white dark:bg-gray-600 shadow-sm font-bold text-blue-600 dark:text-blue-300' 
+                    : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                  }`}
+                >
+                  {view === 'heatmap' ? 'Year' : view}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <PercentChange label="Last 7 days vs. previous 7" current={longRange.weekOverWeek.current} previous={longRange.weekOverWeek.previous} />
+            <PercentChange label="This month vs. same days last month" current={longRange.monthOverMonth.current} previous={longRange.monthOverMonth.previous} />
+          </div>
+
+          {rangeView === 'heatmap' && <CalendarHeatmap totals={dailyTotals} dailyLimitMg={dailyLimitMg} today={getLogicalDay(now, dayStartHour)} />}
+
+          {(rangeView === 'weekly' || rangeView === 'monthly') && (
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={rangeView === 'weekly' ? longRange.weekly : longRange.monthly}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#37415120" />
+                  <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9CA3AF' }} dy={10} />
+                  <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9CA3AF' }} />
+                  <Tooltip 
+                    cursor={{ fill: '#3b82f610' }}
+                    contentStyle={{ 
+                      borderRadius: '12px', 
+                      border: 'none', 
+                      backgroundColor: '#1F2937',
+                      color: '#F9FAFB'
+                    }}
+                    formatter={(value, _name, item) => [`${value} mg/day (${item.payload.total} mg total)`, 'Average']}
+                  />
+                  <Bar dataKey="average" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                </ComposedChart>
+              </ResponsiveContainer>
+              <p className="text-[10px] text-gray-400 italic text-center">Bars show the average mg per day in each {rangeView === 'weekly' ? 'week' : 'month'}.</p>
+            </div>
+          )}
+
+          {rangeView === 'custom' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <input
+                  type="date"
+                  value={customRange.start}
+                  max={customRange.end}
+                  onChange={(e) => e.target.value && setCustomRange({ ...customRange, start: e.target.value })}
+                  className="p-2 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-600"
+                />
+                <span className="text-gray-500">to</span>
+                <input
+                  type="date"
+                  value={customRange.end}
+                  min={customRange.start}
+                  onChange={(e) => e.target.value && setCustomRange({ ...customRange, end: e.target.value })}
+                  className="p-2 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-600"
+                />
+                <span className="text-gray-500 ml-auto">
+                  Avg. {longRange.customAverage.toFixed(1)} mg/day · Peak {longRange.customPeak.total} mg ({longRange.customPeak.label})
+                </span>
+              </div>
+              {longRange.custom.length === 0 ? (
+                <p className="text-center py-8 text-gray-500 italic">Pick a start date on or before the end date.</p>
+              ) : (
+                <div className="h-64 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={longRange.custom}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#37415120" />
+                      <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9CA3AF' }} dy={10} minTickGap={16} />
+                      <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9CA3AF' }} />
+                      <Tooltip 
+                        cursor={{ fill: '#3b82f610' }}
+                        contentStyle={{ 
+                          borderRadius: '12px', 
+                          border: 'none', 
+                          backgroundColor: '#1F2937',
+                          color: '#F9FAFB'
+                        }}
+                        formatter={value => [`${value} mg`, 'Absorbed']}
+                      />
+                      <Bar dataKey="total" radius={[4, 4, 0, 0]}>
+                        {longRange.custom.map((entry, index) => (
+                          <Cell key={`cell-${index}`} fill={entry.total > dailyLimitMg ? '#ef4444' : '#3b82f6'} />
+                        ))}
+                      </Bar>
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+
+        {/* Trends & Insights */}
+        <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <TrendingUp size={20} className="text-blue-500" />
+              Trends & Insights
+            </h2>
+            <div className="flex items-center gap-2 bg-gray-100 dark:bg-gray-700 p-1 rounded-lg">
+              {TREND_DAY_OPTIONS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => setTrendDays(days)}
+                  className={`px-3 py-1 rounded-md text-sm transition-all ${
+                    trendDays === days 
+                    ? 'bg-white dark:bg-gray-600 shadow-sm font-bold text-blue-600 dark:text-blue-300' 
+                    : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                  }`}
+                >
+                  {days}d
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {trends.days.length < 7 ? (
+            <p className="text-center py-8 text-gray-500 italic">Insights appear after a week of history.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <div className="p-4 bg-gray-50 dark:bg-gray-900 rounded-xl">
+                  <p className="text-xs text-gray-500 uppercase font-bold">Daily Average</p>
+                  <p className="text-2xl font-bold">{trends.mean.toFixed(1)} mg</p>
+                </div>
+                <div className="p-4 bg-gray-50 dark:bg-gray-900 rounded-xl">
+                  <p className="text-xs text-gray-500 uppercase font-bold">Trend</p>
+                  <p className={`text-2xl font-bold ${trends.trend.slope < 0 ? 'text-green-600' : trends.trend.slope > 0 ? 'text-red-600' : ''}`}>
+                    {trends.trend.slope > 0 ? '+' : ''}{(trends.trend.slope * 7).toFixed(1)} mg/wk
+                  </p>
+                </div>
+                <div className="p-4 bg-gray-50 dark:bg-gray-900 rounded-xl">
+                  <p className="text-xs text-gray-500 uppercase font-bold">Std. Deviation</p>
+                  <p className="text-2xl font-bold">±{trends.standardDeviation.toFixed(1)} mg</p>
+                </div>
+                <div className="p-4 bg-gray-50 dark:bg-gray-900 rounded-xl">
+                  <p className="text-xs text-gray-500 uppercase font-bold">Range</p>
+                  <p className="text-2xl font-bold">{trends.lowest?.mg.toFixed(1)}–{trends.highest?.mg.toFixed(1)} mg</p>
+                </div>
+              </div>
+
+              <div className="h-64 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={trends.chart}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#37415120" />
+                    <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9CA3AF' }} dy={10} minTickGap={16} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9CA3AF' }} />
+                    <Tooltip 
+                      cursor={{ fill: '#3b82f610' }}
+                      contentStyle={{ 
+                        borderRadius: '12px', 
+                        border: 'none', 
+                        backgroundColor: '#1F2937',
+                        color: '#F9FAFB'
+                      }}
+                      formatter={value => `${value} mg`}
+                    />
+                    <Legend />
+                    <Bar dataKey="total" name="Absorbed" fill="#3b82f640" radius={[4, 4, 0, 0]} />
+                    <Line type="monotone" dataKey="rollingAverage" name="7-day average" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                    <Line type="linear" dataKey="trend" name="Trend" stroke="#f59e0b" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-gray-500 uppercase">By Day of Week</h3>
+                  <div className="h-48 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={trends.weekdays}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#37415120" />
+                        <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9CA3AF' }} />
+                        <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9CA3AF' }} />
+                        <Tooltip 
+                          cursor={{ fill: '#3b82f610' }}
+                          contentStyle={{ 
+                            borderRadius: '12px', 
+                            border: 'none', 
+                            backgroundColor: '#1F2937',
+                            color: '#F9FAFB'
+                          }}
+                          formatter={value => [`${value} mg/day`, 'Average']}
+                        />
+                        <Bar dataKey="average" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-gray-500 uppercase">Insights</h3>
+                  <ul className="space-y-2">
+                    {trends.insights.map(insight => (
+                      <li key={insight} className="flex items-start gap-2 text-sm p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+                        <Lightbulb size={16} className="text-blue-500 shrink-0 mt-0.5" />
+                        {insight}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+              <p className="text-[10px] text-gray-400 italic text-center">Based on completed days only; today is left out until it's over.</p>
+            </>
+          )}
+        </section>
+
+        {/* Blood Level Section */}
+        <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Activity size={20} className="text-blue-500" />
+              Estimated Blood Level
+            </h2>
+            <div className="flex items-center gap-2 bg-gray-100 dark:bg-gray-700 p-1 rounded-lg">
+              {[24, 48, 72].map(hours => (
+                <button
+                  key={hours}
+                  onClick={() => setCurveHours(hours)}
+                  className={`px-3 py-1 rounded-md text-sm transition-all ${
+                    curveHours === hours 
+                    ? 'bg-white dark:bg-gray-600 shadow-sm font-bold text-blue-600 dark:text-blue-300' 
+                    : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                  }`}
+                >
+                  {hours}h
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={plasmaCurve}>
+                <defs>
+                  <linearGradient id="levelFill" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.4} />
+                    <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#37415120" />
+                <XAxis 
+                  dataKey="time" 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fontSize: 12, fill: '#9CA3AF' }}
+                  minTickGap={40}
+                  dy={10}
+                />
+                <YAxis 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fontSize: 12, fill: '#9CA3AF' }}
+                />
+                <Tooltip 
+                  contentStyle={{ 
+                    borderRadius: '12px', 
+                    border: 'none', 
+                    boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)',
+                    backgroundColor: '#1F2937',
+                    color: '#F9FAFB'
+                  }}
+                  itemStyle={{ color: '#60A5FA' }}
+                  formatter={value => [`${value} ng/mL (est.)`, 'Plasma nicotine']}
+                />
+                <Area type="monotone" dataKey="level" stroke="#3b82f6" strokeWidth={2} fill="url(#levelFill)" />
+              </AreaChart>
             </ResponsiveContainer>
           </div>
+          <p className="text-[10px] text-gray-400 mt-2 italic">*Modelled with a {NICOTINE_HALF_LIFE_HOURS}h half-life for a 70 kg adult. Individual metabolism varies widely.</p>
+        </section>
+
+        {/* Craving Insights */}
+        <section className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Brain size={20} className="text-blue-500" />
+              Craving Insights
+            </h2>
+            <div className="flex items-center gap-2 bg-gray-100 dark:bg-gray-700 p-1 rounded-lg">
+              {VIEW_DAY_OPTIONS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => setViewDays(days)}
+                  className={`px-3 py-1 rounded-md text-sm transition-all ${
+                    viewDays === days 
+                    ? 'bg-white dark:bg-gray-600 shadow-sm font-bold text-blue-600 dark:text-blue-300' 
+                    : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                  }`}
+                >
+                  {days}d
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {cravingStats.total === 0 ? (
+            <p className="text-center py-8 text-gray-500 italic">No cravings logged in the last {viewDays} days.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Resisted</p>
+                  <p className="text-3xl font-black text-green-500">{Math.round(cravingStats.resistedRate * 100)}%</p>
+                  <p className="text-xs text-gray-400">{cravingStats.resisted} resisted · {cravingStats.used} used</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Avg. Intensity</p>
+                  <p className="text-3xl font-black text-orange-500">{cravingStats.averageIntensity.toFixed(1)}</p>
+                  <p className="text-xs text-gray-400">out of 5</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Peak Hours</p>
+                  <p className="text-3xl font-black text-blue-500">{cravingStats.peakHours.map(h => `${h.hour}h`).join(' · ')}</p>
+                  <p className="text-xs text-gray-400">{cravingStats.total} cravings total</p>
+                </div>
+              </div>
+
+              <div className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden flex">
+                <div className="bg-green-500" style={{ width: `${cravingStats.resistedRate * 100}%` }} />
+                <div className="bg-orange-400 flex-1" />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-500">Top Triggers</p>
+                  {cravingStats.topTriggers.map(([name, count]) => (
+                    <div key={name} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>{name}</span>
+                        <span className="text-gray-500">{count}</span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-gray-100 dark:bg-gray-700">
+                        <div className="h-1.5 rounded-full bg-blue-500" style={{ width: `${(count / cravingStats.total) * 100}%` }} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-500 mb-2">By Hour</p>
+                  <div className="h-40 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={cravingStats.hours}>
+                        <XAxis dataKey="hour" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#9CA3AF' }} interval={3} />
+                        <YAxis hide allowDecimals={false} />
+                        <Tooltip 
+                          cursor={{ fill: '#3b82f610' }}
+                          contentStyle={{ 
+                            borderRadius: '12px', 
+                            border: 'none', 
+                            backgroundColor: '#1F2937',
+                            color: '#F9FAFB'
+                          }}
+                          formatter={value => [value, 'Cravings']}
+                          labelFormatter={label => `${label}:00`}
+                        />
+                        <Bar dataKey="count" fill="#f97316" radius={[3, 3, 0, 0]} />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          {recentCravings.length > 0 && (
+            <div className="space-y-2 pt-4 border-t border-gray-100 dark:border-gray-700">
+              <p className="text-sm font-medium text-gray-500">Recent Cravings</p>
+              {recentCravings.map(craving => (
+                <div key={craving.id} className="flex justify-between items-center gap-3 py-2 px-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 border border-gray-100 dark:border-gray-700">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="text-lg">{CRAVING_TRIGGER_LABELS[craving.trigger].icon}</span>
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold">
+                        {getCravingTriggerName(craving)} · {craving.intensity}/5
+                        <span className={`ml-2 text-xs font-bold ${craving.outcome === 'resisted' ? 'text-green-500' : 'text-orange-500'}`}>
+                          {craving.outcome === 'resisted' ? 'Resisted' : 'Used'}
+                        </span>
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {format(new Date(craving.timestamp), 'MMM dd, HH:mm')}{craving.note && ` · ${craving.note}`}
+                      </p>
+                    </div>
+                  </div>
+                  <button onClick={() => removeCraving(craving.id)} className="text-gray-400 hover:text-red-500 transition-colors" title="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
         </section>
 
         {/* Recent History List */}
@@ -701,32 +3608,43 @@ const App: React.FC = () => {
             Daily History
           </h2>
           <div className="space-y-3 max-h-60 overflow-y-auto pr-2 custom-scrollbar">
-            {logs.length === 0 ? (
+            {dailyHistory.length === 0 ? (
               <p className="text-center py-8 text-gray-500 italic">No logs yet. Start by adding one above!</p>
             ) : (
-              [...logs].sort((a, b) => b.date.localeCompare(a.date)).map(log => (
-                <div key={`${log.date}-${log.unitType}`} className="flex justify-between items-center p-3 rounded-xl bg-gray-50 dark:bg-gray-700/50 border border-gray-100 dark:border-gray-700">
-                  <div className="flex items-center gap-3">
-                    <div className="w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center text-xl">
-                      {getUnitIcon(log.unitType)}
+              dailyHistory.map(day => (
+                <div key={day.date} className="rounded-xl bg-gray-50 dark:bg-gray-700/50 border border-gray-100 dark:border-gray-700">
+                  <button
+                    onClick={() => setExpandedDay(expandedDay === day.date ? null : day.date)}
+                    className="w-full flex justify-between items-center p-3 text-left"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center text-xl">
+                        {day.units.length === 1 ? getUnitIcon(day.units[0].unitType) : '📊'}
+                      </div>
+                      <div>
+                        <p className="font-semibold">{format(new Date(day.date + 'T12:00:00'), 'MMM dd, yyyy')}</p>
+                        <p className="text-xs text-gray-500 capitalize">
+                          {day.units.map(({ unitType, vapeMeasure, quantity }) =>
+                            `${vapeMeasure ? `vape ${VAPE_MEASURE_NAMES[vapeMeasure]}s` : unitType.replace('_', ' ')}: ${quantity}`
+                          ).join(' · ')}
+                        </p>
+                      </div>
                     </div>
-                    <div>
-                      <p className="font-semibold">{format(new Date(log.date + 'T12:00:00'), 'MMM dd, yyyy')}</p>
-                      <p className="text-xs text-gray-500 capitalize">{log.unitType.replace('_', ' ')}: {log.quantity}</p>
+                    <div className="flex items-center gap-4">
+                      <div className="text-right">
+                        <span className="block font-bold text-gray-700 dark:text-gray-300">{day.mg.toFixed(1)}mg</span>
+                        <span className="text-[10px] text-gray-400">{day.events.length} {day.events.length === 1 ? 'entry' : 'entries'}</span>
+                      </div>
+                      {expandedDay === day.date ? <ChevronDown size={16} className="text-gray-400" /> : <ChevronRight size={16} className="text-gray-400" />}
                     </div>
-                  </div>
-                  <div className="flex items-center gap-4">
-                    <div className="text-right">
-                      <span className="block font-bold text-gray-700 dark:text-gray-300">{getAbsorbedMg(log).toFixed(1)}mg</span>
-                      <span className="text-[10px] text-gray-400">estimate</span>
+                  </button>
+                  {expandedDay === day.date && (
+                    <div className="px-3 pb-3 space-y-2">
+                      {day.events.map(event => (
+                        <DoseEventRow key={event.id} event={event} products={products} onUpdate={updateLog} onRemove={removeLog} />
+                      ))}
                     </div>
-                    <button 
-                      onClick={() => removeLog(log.date, log.unitType)}
-                      className="text-gray-400 hover:text-red-500 transition-colors"
-                    >
-                      <Trash2 size={16} />
-                    </button>
-                  </div>
+                  )}
                 </div>
               ))
             )}
@@ -741,9 +3659,53 @@ const App: React.FC = () => {
           <p>© 2026 NicTrack - Personal Nicotine Journey Tracker</p>
         </footer>
       </div>
+      {report && <ReportView report={report} onClose={() => setReport(null)} />}
+      <UpdatePrompt />
+      {toast && (
+        <div key={toast.id} className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 rounded-xl bg-gray-900 text-gray-100 shadow-xl text-sm">
+          <span>{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={toast.action === 'undo' ? undo : redo}
+              className="font-bold text-blue-400 hover:text-blue-300 uppercase tracking-wider text-xs"
+            >
+              {toast.action === 'undo' ? 'Undo' : 'Redo'}
+            </button>
+          )}
+          <button onClick={() => setToast(null)} className="text-gray-500 hover:text-gray-300" title="Dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      )}
       <Analytics />
     </div>
   );
 };
 
+const App: React.FC = () => {
+  const [registry, setRegistry] = useState(() => {
+    const loaded = loadProfiles();
+    setActiveProfile(loaded.activeId);
+    return loaded;
+  });
+  const profile = getActiveProfile(registry);
+  const [unlocked, setUnlocked] = useState(() => isProfileUnlocked(profile));
+
+  if (!unlocked) {
+    return (
+      <PinPrompt
+        profile={profile}
+        otherProfiles={registry.profiles.filter(p => p.id !== profile.id)}
+        onUnlock={() => {
+          markProfileUnlocked(profile);
+          setUnlocked(true);
+        }}
+        onSwitch={(profileId) => switchProfile(registry, profileId)}
+      />
+    );
+  }
+
+  return <Tracker registry={registry} onRegistryChange={setRegistry} />;
+};
+
 export default App;
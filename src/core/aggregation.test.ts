@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getDailyHistory,
+  getDailySeries,
+  getDailyTotals,
+  getDaySummary,
+  getMonthOverMonth,
+  getMonthlyTotals,
+  getPercentChange,
+  getRangeSummary,
+  getWeekOverWeek,
+  getWeeklyTotals,
+  sumDays
+} from './aggregation';
+import { ABSORPTION_PRESETS } from './constants';
+import { at, day, makeLog, makePlan } from './fixtures';
+
+const logs = [
+  makeLog('2026-01-01', 4),
+  makeLog('2026-01-01', 2),
+  makeLog('2026-01-03', 5),
+];
+
+describe('getDailyTotals', () => {
+  it('sums absorbed mg per local day', () => {
+    expect(getDailyTotals(logs)).toEqual(new Map([['2026-01-01', 6], ['2026-01-03', 5]]));
+  });
+
+  it('respects a custom day start', () => {
+    const lateNight = [...logs, makeLog('2026-01-01', 3, { timestamp: at('2026-01-02', '02:00').toISOString() })];
+    expect(getDailyTotals(lateNight)).toEqual(new Map([['2026-01-01', 6], ['2026-01-02', 3], ['2026-01-03', 5]]));
+    expect(getDailyTotals(lateNight, 4)).toEqual(new Map([['2026-01-01', 9], ['2026-01-03', 5]]));
+  });
+});
+
+describe('sumDays', () => {
+  const totals = getDailyTotals(logs);
+
+  it('includes both ends of the range', () => {
+    expect(sumDays(totals, day('2026-01-01'), day('2026-01-03'))).toBe(11);
+    expect(sumDays(totals, day('2026-01-02'), day('2026-01-03'))).toBe(5);
+  });
+
+  it('is zero for an empty range', () => {
+    expect(sumDays(totals, day('2026-01-03'), day('2026-01-01'))).toBe(0);
+  });
+});
+
+describe('getPercentChange', () => {
+  it('compares against the previous total', () => {
+    expect(getPercentChange(15, 20)).toBe(-25);
+    expect(getPercentChange(30, 20)).toBe(50);
+  });
+
+  it('is null without a previous total', () => {
+    expect(getPercentChange(5, 0)).toBeNull();
+  });
+});
+
+describe('getDailySeries', () => {
+  it('fills days without logs with zero', () => {
+    expect(getDailySeries(logs, day('2026-01-01'), day('2026-01-04'))).toEqual([
+      { date: '2026-01-01', mg: 6 },
+      { date: '2026-01-02', mg: 0 },
+      { date: '2026-01-03', mg: 5 },
+      { date: '2026-01-04', mg: 0 },
+    ]);
+  });
+
+  it('is empty when the range is reversed', () => {
+    expect(getDailySeries(logs, day('2026-01-04'), day('2026-01-01'))).toEqual([]);
+  });
+});
+
+describe('getDaySummary', () => {
+  const model = ABSORPTION_PRESETS[0];
+  const totals = getDailyTotals(logs);
+
+  it('includes the cigarette equivalent', () => {
+    expect(getDaySummary(day('2026-01-01'), totals, null, model)).toEqual({
+      date: '2026-01-01',
+      mg: 6,
+      cigarettes: 3,
+      target: undefined,
+    });
+  });
+
+  it('adds the taper allowance once the plan has started', () => {
+    const plan = makePlan({ startDate: '2026-01-02' });
+    expect(getDaySummary(day('2026-01-01'), totals, plan, model).target).toBeUndefined();
+    expect(getDaySummary(day('2026-01-03'), totals, plan, model).target).toBe(18.9);
+  });
+});
+
+describe('getWeeklyTotals', () => {
+  const totals = getDailyTotals(logs);
+
+  it('sums each week from Sunday', () => {
+    expect(getWeeklyTotals(totals, day('2026-01-03'), 2)).toEqual([
+      { start: '2025-12-21', total: 0, average: 0 },
+      { start: '2025-12-28', total: 11, average: 1.6 },
+    ]);
+  });
+
+  it('averages the current week over the days so far', () => {
+    expect(getWeeklyTotals(totals, day('2026-01-01'), 1)).toEqual([{ start: '2025-12-28', total: 6, average: 1.2 }]);
+  });
+});
+
+describe('getMonthlyTotals', () => {
+  it('sums each calendar month', () => {
+    expect(getMonthlyTotals(getDailyTotals(logs), day('2026-01-03'), 2)).toEqual([
+      { start: '2025-12-01', total: 0, average: 0 },
+      { start: '2026-01-01', total: 11, average: 3.7 },
+    ]);
+  });
+});
+
+describe('getRangeSummary', () => {
+  const totals = getDailyTotals(logs);
+
+  it('lists every day with its average and peak', () => {
+    expect(getRangeSummary(totals, day('2026-01-01'), day('2026-01-04'))).toEqual({
+      days: [
+        { date: '2026-01-01', mg: 6 },
+        { date: '2026-01-02', mg: 0 },
+        { date: '2026-01-03', mg: 5 },
+        { date: '2026-01-04', mg: 0 },
+      ],
+      averageMg: 2.75,
+      peak: { date: '2026-01-01', mg: 6 },
+    });
+  });
+
+  it('has no peak without logs', () => {
+    expect(getRangeSummary(totals, day('2026-01-04'), day('2026-01-05')).peak).toBeNull();
+    expect(getRangeSummary(totals, day('2026-01-04'), day('2026-01-01'))).toEqual({ days: [], averageMg: 0, peak: null });
+  });
+});
+
+describe('getWeekOverWeek', () => {
+  it('compares the last 7 days with the 7 before', () => {
+    expect(getWeekOverWeek(getDailyTotals(logs), day('2026-01-08'))).toEqual({ current: 5, previous: 6 });
+  });
+});
+
+describe('getMonthOverMonth', () => {
+  const totals = getDailyTotals([
+    makeLog('2026-02-02', 2),
+    makeLog('2026-02-03', 1),
+    makeLog('2026-02-28', 4),
+    makeLog('2026-03-02', 3),
+    makeLog('2026-03-30', 1),
+  ]);
+
+  it('compares the month so far with the same days of last month', () => {
+    expect(getMonthOverMonth(totals, day('2026-03-02'))).toEqual({ current: 3, previous: 2 });
+  });
+
+  it('compares with all of a shorter last month', () => {
+    expect(getMonthOverMonth(totals, day('2026-03-30'))).toEqual({ current: 4, previous: 7 });
+  });
+});
+
+describe('getDailyHistory', () => {
+  const pod = makeLog('2026-01-03', 1, { unitType: 'puffs', vapeMeasure: 'pod', quantity: 2, strength: 0.5 });
+  const history = getDailyHistory([...logs, pod, { ...pod, id: 'pod-2' }]);
+
+  it('groups entries by day, newest day first', () => {
+    expect(history.map(d => d.date)).toEqual(['2026-01-03', '2026-01-01']);
+    expect(history.map(d => d.mg)).toEqual([7, 6]);
+    expect(history[1].events).toHaveLength(2);
+  });
+
+  it('adds up quantities per unit, with vape measures kept apart', () => {
+    expect(history[0].units).toEqual([
+      { unitType: 'pouches', vapeMeasure: undefined, quantity: 1 },
+      { unitType: 'puffs', vapeMeasure: 'pod', quantity: 4 },
+    ]);
+  });
+
+  it('respects a custom day start', () => {
+    const lateNight = makeLog('2026-01-01', 3, { timestamp: at('2026-01-02', '02:00').toISOString() });
+    expect(getDailyHistory([...logs, lateNight], 4).map(d => d.date)).toEqual(['2026-01-03', '2026-01-01']);
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  endOfMonth,
+  format,
+  startOfMonth,
+  subDays,
+  subMonths,
+  subWeeks
+} from 'date-fns';
+import { getAbsorbedMg } from './conversion';
+import { getTaperAllowance } from './taper';
+import { getLogDate } from './logs';
+import type { AbsorptionModel, DoseEvent, PreferredUnit, TaperPlan, VapeMeasure } from '../types';
+
+export interface DailyPoint {
+  date: string; // YYYY-MM-DD
+  mg: number;
+}
+
+export interface DaySummary {
+  date: string; // YYYY-MM-DD
+  mg: number;
+  cigarettes: number;
+  target?: number; // taper allowance, for days within the plan
+}
+
+export interface PeriodTotal {
+  start: string; // YYYY-MM-DD, first day of the week or month
+  total: number; // absorbed mg
+  average: number; // mg per day, over the days so far for the current period
+}
+
+export interface RangeSummary {
+  days: DailyPoint[];
+  averageMg: number;
+  peak: DailyPoint | null; // null when nothing was logged in the range
+}
+
+export interface PeriodComparison {
+  current: number; // absorbed mg
+  previous: number;
+}
+
+// One day of the history list: its entries newest first, and how much of each kind was logged.
+export interface DayHistory {
+  date: string; // YYYY-MM-DD
+  events: DoseEvent[];
+  units: { unitType: PreferredUnit, vapeMeasure?: VapeMeasure, quantity: number }[];
+  mg: number;
+}
+
+// Absorbed mg per day, keyed by the day each log counts towards (see `getLogDate`).
+export const getDailyTotals = (logs: DoseEvent[], dayStartHour = 0) => {
+  const totals = new Map<string, number>();
+  logs.forEach(log => {
+    const date = getLogDate(log, dayStartHour);
+    totals.set(date, (totals.get(date) || 0) + getAbsorbedMg(log));
+  });
+  return totals;
+};
+
+export const sumDays = (totals: Map<string, number>, start: Date, end: Date) =>
+  start > end ? 0 : eachDayOfInterval({ start, end }).reduce((sum, day) => sum + (totals.get(format(day, 'yyyy-MM-dd')) || 0), 0);
+
+// Percent change between two totals, or null when there's nothing to compare against.
+export const getPercentChange = (current: number, previous: number) =>
+  previous > 0 ? ((current - previous) / previous) * 100 : null;
+
+// One point per day from `start` to `end`, with days that have no logs as 0 mg.
+export const getDailySeries = (logs: DoseEvent[], start: Date, end: Date, dayStartHour = 0): DailyPoint[] => {
+  if (start > end) return [];
+  const totals = getDailyTotals(logs, dayStartHour);
+  return eachDayOfInterval({ start, end }).map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+    return { date, mg: totals.get(date) || 0 };
+  });
+};
+
+// One day of the daily chart: absorbed mg, cigarette equivalent, and the taper allowance once the plan has started.
+export const getDaySummary = (day: Date, totals: Map<string, number>, plan: TaperPlan | null, model: AbsorptionModel): DaySummary => {
+  const date = format(day, 'yyyy-MM-dd');
+  const totalMg = totals.get(date) || 0;
+  return {
+    date,
+    mg: Number(totalMg.toFixed(1)),
+    cigarettes: Number((totalMg / model.mgPerCig).toFixed(1)),
+    target: plan && date >= plan.startDate ? Number(getTaperAllowance(plan, day).toFixed(1)) : undefined,
+  };
+};
+
+const getPeriodTotal = (totals: Map<string, number>, start: Date, end: Date, today: Date): PeriodTotal => {
+  const last = end > today ? today : end;
+  const days = differenceInCalendarDays(last, start) + 1;
+  const total = sumDays(totals, start, last);
+  return {
+    start: format(start, 'yyyy-MM-dd'),
+    total: Number(total.toFixed(1)),
+    average: Number((days > 0 ? total / days : 0).toFixed(1)),
+  };
+};
+
+// The last `count` weeks (starting Sunday) up to and including the one with `today`.
+export const getWeeklyTotals = (totals: Map<string, number>, today: Date, count = 12) =>
+  eachWeekOfInterval({ start: subWeeks(today, count - 1), end: today })
+    .map(week => getPeriodTotal(totals, week, addDays(week, 6), today));
+
+export const getMonthlyTotals = (totals: Map<string, number>, today: Date, count = 12) =>
+  eachMonthOfInterval({ start: subMonths(today, count - 1), end: today })
+    .map(month => getPeriodTotal(totals, month, endOfMonth(month), today));
+
+export const getRangeSummary = (totals: Map<string, number>, start: Date, end: Date): RangeSummary => {
+  if (start > end) return { days: [], averageMg: 0, peak: null };
+  const days = eachDayOfInterval({ start, end }).map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+    return { date, mg: Number((totals.get(date) || 0).toFixed(1)) };
+  });
+  return {
+    days,
+    averageMg: days.reduce((sum, d) => sum + d.mg, 0) / days.length,
+    peak: days.reduce<DailyPoint | null>((peak, d) => d.mg > (peak?.mg ?? 0) ? d : peak, null),
+  };
+};
+
+// The last 7 days against the 7 before them.
+export const getWeekOverWeek = (totals: Map<string, number>, today: Date): PeriodComparison => ({
+  current: sumDays(totals, subDays(today, 6), today),
+  previous: sumDays(totals, subDays(today, 13), subDays(today, 7)),
+});
+
+// The month so far against the same days of last month (or all of it, when it was shorter).
+export const getMonthOverMonth = (totals: Map<string, number>, today: Date): PeriodComparison => {
+  const monthStart = startOfMonth(today);
+  const lastMonthStart = subMonths(monthStart, 1);
+  const lastMonthDays = differenceInCalendarDays(endOfMonth(lastMonthStart), lastMonthStart);
+  return {
+    current: sumDays(totals, monthStart, today),
+    previous: sumDays(totals, lastMonthStart, addDays(lastMonthStart, Math.min(differenceInCalendarDays(today, monthStart), lastMonthDays))),
+  };
+};
+
+// Every day with entries, newest first. Vape profile entries are counted per measure, as a pod
+// and a puff aren't the same amount.
+export const getDailyHistory = (logs: DoseEvent[], dayStartHour = 0): DayHistory[] => {
+  const days = new Map<string, DoseEvent[]>();
+  logs.forEach(log => {
+    const date = getLogDate(log, dayStartHour);
+    days.set(date, [...(days.get(date) || []), log]);
+  });
+
+  return [...days.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([date, events]) => {
+      const units = new Map<string, DayHistory['units'][number]>();
+      events.forEach(e => {
+        const key = e.vapeMeasure ? `vape:${e.vapeMeasure}` : e.unitType;
+        const quantity = (units.get(key)?.quantity || 0) + e.quantity;
+        units.set(key, { unitType: e.unitType, vapeMeasure: e.vapeMeasure, quantity });
+      });
+      return {
+        date,
+        events: [...events].sort((a, b) => b.timestamp.localeCompare(a.timestamp)),
+        units: [...units.values()],
+        mg: events.reduce((sum, e) => sum + getAbsorbedMg(e), 0),
+      };
+    });
+};
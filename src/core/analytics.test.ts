@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeIntake,
+  analyzeRecentIntake,
+  dayOfWeekAverages,
+  getTrendDirection,
+  linearTrend,
+  mean,
+  rollingAverage,
+  variance
+} from './analytics';
+import type { DailyPoint } from './aggregation';
+import { day, makeLog } from './fixtures';
+
+// 2026-01-05 is a Monday.
+const series = (mgs: number[], start = '2026-01-05'): DailyPoint[] => mgs.map((mg, i) => {
+  const date = new Date(start + 'T00:00:00');
+  date.setDate(date.getDate() + i);
+  return { date: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`, mg };
+});
+
+describe('summary statistics', () => {
+  it('computes mean and population variance', () => {
+    expect(mean([2, 4, 6])).toBe(4);
+    expect(mean([])).toBe(0);
+    expect(variance([2, 4, 6])).toBeCloseTo(8 / 3);
+  });
+
+  it('averages over a trailing window', () => {
+    expect(rollingAverage([1, 2, 3, 4], 2)).toEqual([1, 1.5, 2.5, 3.5]);
+  });
+});
+
+describe('linearTrend', () => {
+  it('fits a straight line', () => {
+    expect(linearTrend([10, 8, 6, 4])).toEqual({ slope: -2, intercept: 10 });
+  });
+
+  it('is flat for fewer than two points', () => {
+    expect(linearTrend([5])).toEqual({ slope: 0, intercept: 5 });
+    expect(linearTrend([])).toEqual({ slope: 0, intercept: 0 });
+  });
+});
+
+describe('getTrendDirection', () => {
+  it('ignores weekly changes under 5% of the average', () => {
+    expect(getTrendDirection({ slope: -0.1, intercept: 20 }, 20)).toBe('stable');
+    expect(getTrendDirection({ slope: -0.5, intercept: 20 }, 20)).toBe('decreasing');
+    expect(getTrendDirection({ slope: 0.5, intercept: 20 }, 20)).toBe('increasing');
+    expect(getTrendDirection({ slope: 1, intercept: 0 }, 0)).toBe('stable');
+  });
+});
+
+describe('dayOfWeekAverages', () => {
+  it('starts on Sunday and leaves missing weekdays null', () => {
+    const averages = dayOfWeekAverages(series([10, 20, 30]));
+    expect(averages).toEqual([null, 10, 20, 30, null, null, null]);
+  });
+});
+
+describe('analyzeIntake', () => {
+  it('adds rolling averages and the fitted trend to each day', () => {
+    const analysis = analyzeIntake(series([10, 8, 6, 4]));
+    expect(analysis.days.map(d => d.trend)).toEqual([10, 8, 6, 4]);
+    expect(analysis.days[3].rollingAverage).toBe(7);
+    expect(analysis.highest).toEqual({ date: '2026-01-05', mg: 10 });
+    expect(analysis.lowest).toEqual({ date: '2026-01-08', mg: 4 });
+  });
+
+  it('has no insights for less than a week', () => {
+    expect(analyzeIntake(series([10, 8, 6])).insights).toEqual([]);
+  });
+
+  it('describes a downward trend', () => {
+    const { insights } = analyzeIntake(series(Array.from({ length: 14 }, (_, i) => 20 - i)));
+    expect(insights[0]).toBe('Your intake is trending down by about 7 mg per week.');
+  });
+
+  it('calls out a heavier weekday', () => {
+    // Two weeks, Monday to Sunday, with Saturdays at double the usual dose.
+    const week = [10, 10, 10, 10, 10, 20, 10];
+    const { insights } = analyzeIntake(series([...week, ...week]));
+    expect(insights).toContain('Your Saturday intake averages 100% higher than other days.');
+    expect(insights).toContain('Weekends average 50% more than weekdays.');
+  });
+
+  it('notes high day-to-day variation', () => {
+    const { insights } = analyzeIntake(series([0, 20, 0, 20, 0, 20, 0, 20]));
+    expect(insights.some(i => i.startsWith('Your daily intake varies a lot'))).toBe(true);
+  });
+});
+
+describe('analyzeRecentIntake', () => {
+  const logs = [makeLog('2026-01-01', 6), makeLog('2026-01-03', 5), makeLog('2026-01-05', 9)];
+
+  it('covers completed days only', () => {
+    const analysis = analyzeRecentIntake(logs, day('2026-01-05'), 2);
+    expect(analysis.days.map(d => [d.date, d.mg])).toEqual([['2026-01-03', 5], ['2026-01-04', 0]]);
+  });
+
+  it('starts no earlier than the first entry', () => {
+    const analysis = analyzeRecentIntake(logs, day('2026-01-05'), 30);
+    expect(analysis.days.map(d => d.mg)).toEqual([6, 0, 5, 0]);
+  });
+});
@@ -0,0 +1,165 @@
+import { format, getDay, subDays } from 'date-fns';
+import { getDailySeries, getPercentChange } from './aggregation';
+import type { DailyPoint } from './aggregation';
+import { getLogDate } from './logs';
+import type { DoseEvent } from '../types';
+
+export interface TrendLine {
+  slope: number; // mg/day change per day
+  intercept: number; // fitted mg/day on the first day
+}
+
+export interface IntakeAnalysis {
+  days: (DailyPoint & { rollingAverage: number, trend: number })[];
+  mean: number;
+  variance: number;
+  standardDeviation: number;
+  trend: TrendLine;
+  dayOfWeekAverages: (number | null)[]; // index 0 is Sunday; null when the range has no such day
+  highest: DailyPoint | null;
+  lowest: DailyPoint | null;
+  insights: string[];
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Differences smaller than these are treated as noise and don't produce an insight.
+const MIN_WEEKDAY_DIFFERENCE = 0.15;
+const MIN_WEEKLY_TREND = 0.05;
+const HIGH_VARIATION = 0.5;
+
+export const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+// Population variance: the series is every day in the range, not a sample of them.
+export const variance = (values: number[]) => {
+  const average = mean(values);
+  return mean(values.map(v => (v - average) ** 2));
+};
+
+// Average of each value and up to `window - 1` values before it.
+export const rollingAverage = (values: number[], window = 7) =>
+  values.map((_, i) => mean(values.slice(Math.max(0, i - window + 1), i + 1)));
+
+// Least-squares fit of value against index.
+export const linearTrend = (values: number[]): TrendLine => {
+  const n = values.length;
+  if (n < 2) return { slope: 0, intercept: values[0] || 0 };
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((y, x) => {
+    numerator += (x - xMean) * (y - yMean);
+    denominator += (x - xMean) ** 2;
+  });
+  const slope = numerator / denominator;
+  return { slope, intercept: yMean - slope * xMean };
+};
+
+export const dayOfWeekAverages = (series: DailyPoint[]) =>
+  DAY_NAMES.map((_, weekday) => {
+    const values = series.filter(p => getDay(new Date(p.date + 'T00:00:00')) === weekday).map(p => p.mg);
+    return values.length > 0 ? mean(values) : null;
+  });
+
+// Whether the fitted line moves enough over a week, relative to the average day, to call it a trend.
+export const getTrendDirection = (trend: TrendLine, average: number) => {
+  const weeklyChange = trend.slope * 7;
+  if (average === 0 || Math.abs(weeklyChange) < average * MIN_WEEKLY_TREND) return 'stable';
+  return weeklyChange < 0 ? 'decreasing' : 'increasing';
+};
+
+const formatMg = (mg: number) => `${Number(mg.toFixed(1))} mg`;
+
+const formatDay = (date: string) => format(new Date(date + 'T00:00:00'), 'EEE, MMM d');
+
+// Plain-language observations, most useful first.
+export const getInsights = (series: DailyPoint[], analysis: Omit<IntakeAnalysis, 'insights' | 'days'>): string[] => {
+  const insights: string[] = [];
+  if (series.length < 7 || analysis.mean === 0) return insights;
+
+  const weeklyChange = analysis.trend.slope * 7;
+  if (getTrendDirection(analysis.trend, analysis.mean) !== 'stable') {
+    insights.push(weeklyChange < 0
+      ? `Your intake is trending down by about ${formatMg(-weeklyChange)} per week.`
+      : `Your intake is trending up by about ${formatMg(weeklyChange)} per week.`);
+  } else {
+    insights.push('Your intake has been roughly flat over this period.');
+  }
+
+  const values = series.map(p => p.mg);
+  if (values.length >= 14) {
+    const lastWeek = mean(values.slice(-7));
+    const weekBefore = mean(values.slice(-14, -7));
+    const change = getPercentChange(lastWeek, weekBefore);
+    if (change !== null && Math.abs(change) >= 5) {
+      insights.push(`Your 7-day average is ${formatMg(lastWeek)}/day, ${Math.abs(change).toFixed(0)}% ${change < 0 ? 'lower' : 'higher'} than the week before.`);
+    }
+  }
+
+  // Compare the most unusual weekday with the average of the other days.
+  const byWeekday = analysis.dayOfWeekAverages
+    .map((average, weekday) => ({ weekday, average }))
+    .filter((d): d is { weekday: number, average: number } => d.average !== null);
+  const outlier = byWeekday
+    .map(d => {
+      const others = mean(byWeekday.filter(o => o.weekday !== d.weekday).map(o => o.average));
+      return { ...d, difference: others > 0 ? (d.average - others) / others : 0 };
+    })
+    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference))[0];
+  if (outlier && Math.abs(outlier.difference) >= MIN_WEEKDAY_DIFFERENCE) {
+    insights.push(`Your ${DAY_NAMES[outlier.weekday]} intake averages ${Math.abs(outlier.difference * 100).toFixed(0)}% ${outlier.difference > 0 ? 'higher' : 'lower'} than other days.`);
+  }
+
+  const weekend = [analysis.dayOfWeekAverages[0], analysis.dayOfWeekAverages[6]].filter((v): v is number => v !== null);
+  const weekdays = analysis.dayOfWeekAverages.slice(1, 6).filter((v): v is number => v !== null);
+  const weekendChange = weekend.length > 0 && weekdays.length > 0 ? getPercentChange(mean(weekend), mean(weekdays)) : null;
+  if (weekendChange !== null && Math.abs(weekendChange) >= MIN_WEEKDAY_DIFFERENCE * 100) {
+    insights.push(`Weekends average ${Math.abs(weekendChange).toFixed(0)}% ${weekendChange > 0 ? 'more' : 'less'} than weekdays.`);
+  }
+
+  if (analysis.highest && analysis.lowest) {
+    insights.push(`Your heaviest day was ${formatDay(analysis.highest.date)} (${formatMg(analysis.highest.mg)}); your lightest was ${formatDay(analysis.lowest.date)} (${formatMg(analysis.lowest.mg)}).`);
+  }
+
+  if (analysis.standardDeviation / analysis.mean >= HIGH_VARIATION) {
+    insights.push(`Your daily intake varies a lot (±${formatMg(analysis.standardDeviation)} around ${formatMg(analysis.mean)}). A steadier routine can make tapering easier.`);
+  }
+
+  return insights;
+};
+
+export const analyzeIntake = (series: DailyPoint[]): IntakeAnalysis => {
+  const values = series.map(p => p.mg);
+  const rolling = rollingAverage(values);
+  const trend = linearTrend(values);
+  const sorted = [...series].sort((a, b) => a.mg - b.mg);
+  const summary = {
+    mean: mean(values),
+    variance: variance(values),
+    standardDeviation: Math.sqrt(variance(values)),
+    trend,
+    dayOfWeekAverages: dayOfWeekAverages(series),
+    highest: sorted[sorted.length - 1] || null,
+    lowest: sorted[0] || null,
+  };
+  return {
+    ...summary,
+    days: series.map((p, i) => ({ ...p, rollingAverage: rolling[i], trend: trend.intercept + trend.slope * i })),
+    insights: getInsights(series, summary),
+  };
+};
+
+// The `days` completed days before `today` (the logical day, see getLogicalDay), or fewer when
+// logging started later. Today is left out so a half-logged day doesn't drag the trend down.
+export const analyzeRecentIntake = (logs: DoseEvent[], today: Date, days: number, dayStartHour = 0): IntakeAnalysis => {
+  const yesterday = subDays(today, 1);
+  const firstDate = logs.reduce<string | null>((first, log) => {
+    const date = getLogDate(log, dayStartHour);
+    return first === null || date < first ? date : first;
+  }, null);
+  const firstDay = firstDate ? new Date(firstDate + 'T00:00:00') : yesterday;
+  const start = subDays(yesterday, days - 1);
+  return analyzeIntake(getDailySeries(logs, firstDay > start ? firstDay : start, yesterday, dayStartHour));
+};
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_VERSION, applyImport, createBackup, logsToCsv, parseBackupCsv, parseBackupJson } from './backup';
+import type { BackupData } from './backup';
+import { DEFAULT_ABSORPTION_MODEL } from './constants';
+import { makeLog, makePlan } from './fixtures';
+import type { Craving, DoseEvent, UserConfig } from '../types';
+
+const logs = [
+  makeLog('2026-01-02', 4, { id: 'b', utcOffset: 60, productName: 'Zyn, "cool mint"' }),
+  makeLog('2026-01-01', 2, { id: 'a', utcOffset: 0, unitType: 'puffs', quantity: 10, strength: 0.2, vapeMeasure: 'puff' }),
+];
+const config: UserConfig = {
+  source: 'pouches',
+  unit: 'pouches',
+  products: [{ id: 'p1', name: 'Zyn', deliveryType: 'pouches', strength: 6, absorptionRate: 0.5 }],
+  absorptionModel: DEFAULT_ABSORPTION_MODEL,
+  dailyLimitMg: 20,
+  dayStartHour: 0,
+};
+const craving: Craving = { id: 'c1', timestamp: '2026-01-01T09:00:00.000Z', intensity: 3, trigger: 'coffee', outcome: 'resisted' };
+
+describe('logsToCsv', () => {
+  const [header, ...rows] = logsToCsv(logs).split('\n');
+
+  it('writes one row per entry, oldest first', () => {
+    expect(header.split(',')).toContain('utc_offset');
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatch(/^2026-01-01T\d\d:00:00.000Z,2026-01-01,puffs,/);
+  });
+
+  it('quotes fields with commas and quotes', () => {
+    expect(rows[1]).toContain('"Zyn, ""cool mint"""');
+  });
+
+  it('dates entries by the day they count towards', () => {
+    const lateNight = makeLog('2026-01-01', 1, { timestamp: '2026-01-02T02:00:00.000Z', utcOffset: 0 });
+    expect(logsToCsv([lateNight]).split('\n')[1]).toMatch(/^2026-01-02T02:00:00.000Z,2026-01-02,/);
+    expect(logsToCsv([lateNight], 4).split('\n')[1]).toMatch(/^2026-01-02T02:00:00.000Z,2026-01-01,/);
+  });
+});
+
+describe('parseBackupCsv', () => {
+  it('reads back what logsToCsv writes', () => {
+    const result = parseBackupCsv('logs.csv', logsToCsv(logs));
+    expect(result.errors).toEqual([]);
+    // CSV has no id column, so imported rows get new ids.
+    const withoutId = ({ id: _, ...log }: DoseEvent) => log;
+    expect(result.logs.map(withoutId)).toEqual([logs[1], logs[0]].map(withoutId));
+  });
+
+  it('accepts rows from other tools with only a date and total mg', () => {
+    const result = parseBackupCsv('other.csv', 'Date,Unit,Quantity,mg\r\n2026-01-05,cigs,2,3\r\n');
+    expect(result.errors).toEqual([]);
+    expect(result.logs).toMatchObject([{ unitType: 'cigs', quantity: 2, strength: 1.5, absorptionRate: 1 }]);
+  });
+
+  it('reports rows it cannot read by line number', () => {
+    const result = parseBackupCsv('bad.csv', 'date,unit,quantity,mg\n2026-01-05,cigs,1,1\nnot a date,cigs,1,1\n2026-01-06,joints,1,1');
+    expect(result.logs).toHaveLength(1);
+    expect(result.errors).toEqual(['Row 3: invalid timestamp', 'Row 4: unknown unit "joints"']);
+  });
+
+  it('needs unit, quantity and a date', () => {
+    expect(parseBackupCsv('empty.csv', '').errors).toEqual(['File is empty']);
+    expect(parseBackupCsv('cols.csv', 'unit,quantity\ncigs,1').errors).toEqual(['CSV needs unit, quantity and date (or timestamp) columns']);
+  });
+});
+
+describe('parseBackupJson', () => {
+  it('reads back a backup', () => {
+    const backup = createBackup({
+      config,
+      logs,
+      taperPlan: makePlan(),
+      cravings: [craving],
+      spending: { currency: 'EUR', purchases: [], baselineStart: null, baselineEnd: null },
+      quiz: null,
+    }, new Date('2026-01-03T00:00:00Z'));
+    expect(backup).toMatchObject({ app: 'NicTrack', version: BACKUP_VERSION, exportedAt: '2026-01-03T00:00:00.000Z' });
+
+    const result = parseBackupJson('backup.json', JSON.stringify(backup));
+    expect(result).toEqual({
+      fileName: 'backup.json',
+      logs,
+      cravings: [craving],
+      config,
+      taperPlan: makePlan(),
+      spending: backup.spending,
+      quiz: undefined,
+      errors: [],
+    });
+  });
+
+  it('leaves cravings alone for backups from before the craving log', () => {
+    const result = parseBackupJson('v1.json', JSON.stringify({ app: 'NicTrack', version: 1, logs }));
+    expect(result.cravings).toBeUndefined();
+    expect(result.logs).toHaveLength(2);
+  });
+
+  describe('with a malformed file', () => {
+    const parse = (data: unknown) => parseBackupJson('backup.json', JSON.stringify(data));
+    const backup = { app: 'NicTrack', version: BACKUP_VERSION, logs };
+
+    it('rejects files that are not NicTrack backups', () => {
+      expect(parseBackupJson('backup.json', '{"app": "NicTrack",').errors).toEqual(['File is not valid JSON']);
+      for (const data of [null, 42, 'NicTrack', [backup], { ...backup, app: 'Other' }, { ...backup, version: '4' }]) {
+        expect(parse(data)).toEqual({ fileName: 'backup.json', logs: [], errors: ['File is not a NicTrack backup'] });
+      }
+    });
+
+    it('rejects backups from a newer release', () => {
+      expect(parse({ ...backup, version: BACKUP_VERSION + 1 }).errors).toEqual([`Backup version ${BACKUP_VERSION + 1} is newer than this app supports`]);
+    });
+
+    it('rejects backups without a list of logs', () => {
+      expect(parse({ ...backup, logs: { a: logs[0] } }).errors).toEqual(['Backup has no logs']);
+    });
+
+    it('skips unreadable entries and cravings but keeps the rest', () => {
+      const result = parse({ ...backup, logs: [logs[0], null, { ...logs[1], unitType: 'snus' }], cravings: [craving, { ...craving, intensity: 9 }] });
+      expect(result.logs).toEqual([logs[0]]);
+      expect(result.cravings).toEqual([craving]);
+      expect(result.errors).toEqual(['Entry 2: not an object', 'Entry 3: unknown unit "snus"', 'Craving 2: invalid intensity']);
+    });
+
+    it('leaves out malformed settings, plan, purchases and quiz', () => {
+      const result = parse({
+        ...backup,
+        config: { ...config, source: 'hookah' },
+        taperPlan: makePlan({ curve: 'cliff' as never }),
+        spending: { currency: 'dollars', purchases: [] },
+        quiz: 'done',
+      });
+      expect(result).toMatchObject({ config: undefined, taperPlan: undefined, spending: undefined, quiz: undefined });
+      expect(result.errors).toEqual([
+        'Settings were malformed (unknown source "hookah") and will not be imported',
+        'Taper plan was malformed (unknown curve "cliff") and will not be imported',
+        'Purchases were malformed (unknown currency "dollars") and will not be imported',
+        'Quiz results were malformed (not an object) and will not be imported',
+      ]);
+    });
+  });
+});
+
+describe('applyImport', () => {
+  const purchase = { id: 'u1', date: '2026-01-01', productId: 'p1', price: 5, unitsPerPack: 20 };
+  const current: BackupData = {
+    config,
+    logs: [logs[0]],
+    taperPlan: null,
+    cravings: [craving],
+    spending: { currency: 'EUR', purchases: [purchase], baselineStart: null, baselineEnd: null },
+    quiz: null,
+  };
+  const product = { id: 'p2', name: 'Velo', deliveryType: 'pouches' as const, strength: 10, absorptionRate: 0.5 };
+  const imported = {
+    fileName: 'backup.json',
+    logs,
+    cravings: [craving, { ...craving, id: 'c2' }],
+    config: { ...config, unit: 'cigs' as const, products: [config.products[0], product] },
+    taperPlan: makePlan(),
+    spending: { currency: 'USD', purchases: [purchase, { ...purchase, id: 'u2' }], baselineStart: null, baselineEnd: null },
+    errors: [],
+  };
+
+  it('replaces what the file has and keeps the rest', () => {
+    const result = applyImport(current, { ...imported, cravings: undefined, quiz: undefined }, 'replace');
+    expect(result).toEqual({ ...current, config: imported.config, logs, taperPlan: makePlan(), spending: imported.spending });
+  });
+
+  it('merges in entries, cravings, purchases and products that are new', () => {
+    const result = applyImport(current, imported, 'merge');
+    expect(result.logs).toEqual([logs[0], logs[1]]);
+    expect(result.cravings.map(c => c.id)).toEqual(['c1', 'c2']);
+    expect(result.spending).toMatchObject({ currency: 'EUR', purchases: [{ id: 'u1' }, { id: 'u2' }] });
+    expect(result.config).toEqual({ ...config, products: [config.products[0], product] });
+  });
+
+  it('only fills in a plan or quiz when there is none yet', () => {
+    expect(applyImport(current, imported, 'merge').taperPlan).toEqual(makePlan());
+    const withPlan = { ...current, taperPlan: makePlan({ startMg: 30 }) };
+    expect(applyImport(withPlan, imported, 'merge').taperPlan).toBe(withPlan.taperPlan);
+  });
+
+  it('leaves unchanged lists as they were', () => {
+    const result = applyImport(current, { fileName: 'logs.csv', logs: [], errors: [] }, 'merge');
+    expect(result.cravings).toBe(current.cravings);
+    expect(result.spending).toBe(current.spending);
+    expect(result.config).toBe(current.config);
+  });
+});
@@ -0,0 +1,245 @@
+import { getAbsorbedMg } from './conversion';
+import { getLogDate, mergeLogs } from './logs';
+import {
+  isRecord,
+  validateCraving,
+  validateDoseEvent,
+  validateQuizResult,
+  validateSpending,
+  validateTaperPlan,
+  validateUserConfig
+} from './validation';
+import type { Craving, DoseEvent, QuizResult, SpendingSettings, TaperPlan, UserConfig } from '../types';
+
+export const BACKUP_VERSION = 4;
+const CSV_COLUMNS = ['timestamp', 'date', 'unit', 'product', 'quantity', 'strength_mg', 'absorption_rate', 'mg', 'absorption_model', 'vape_measure', 'puffs_per_unit', 'utc_offset'];
+
+export interface Backup {
+  app: 'NicTrack';
+  version: number;
+  exportedAt: string; // ISO 8601
+  config: UserConfig | null;
+  logs: DoseEvent[];
+  taperPlan: TaperPlan | null;
+  cravings: Craving[]; // added in version 2
+  spending: SpendingSettings; // added in version 3
+  quiz: QuizResult | null; // added in version 4
+}
+
+// What a backup or CSV file holds once validated; fields left undefined are kept as they are.
+export interface ImportResult {
+  fileName: string;
+  logs: DoseEvent[];
+  cravings?: Craving[];
+  config?: UserConfig | null;
+  taperPlan?: TaperPlan | null;
+  spending?: SpendingSettings;
+  quiz?: QuizResult | null;
+  errors: string[];
+}
+
+// Everything in a profile that's worth keeping.
+export type BackupData = Omit<Backup, 'app' | 'version' | 'exportedAt'>;
+
+// As written by "Export backup".
+export const createBackup = (
+  data: BackupData,
+  exportedAt = new Date()
+): Backup => ({
+  app: 'NicTrack',
+  version: BACKUP_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  ...data,
+});
+
+// Records from `incoming` whose ids aren't in `existing` yet, after the existing ones.
+const mergeById = <T extends { id: string }>(existing: T[], incoming: T[]) => {
+  const ids = new Set(existing.map(r => r.id));
+  const missing = incoming.filter(r => !ids.has(r.id));
+  return missing.length > 0 ? [...existing, ...missing] : existing;
+};
+
+// The profile after an import. Replacing takes everything the file has; merging adds entries,
+// cravings, purchases and products that aren't there yet, and only fills in a missing plan or quiz.
+export const applyImport = (current: BackupData, imported: ImportResult, mode: 'merge' | 'replace'): BackupData => {
+  if (mode === 'replace') {
+    return {
+      config: imported.config || current.config,
+      logs: imported.logs,
+      taperPlan: imported.taperPlan !== undefined ? imported.taperPlan : current.taperPlan,
+      cravings: imported.cravings || current.cravings,
+      spending: imported.spending || current.spending,
+      quiz: imported.quiz || current.quiz,
+    };
+  }
+  const purchases = mergeById(current.spending.purchases, imported.spending?.purchases || []);
+  return {
+    config: current.config && imported.config
+      ? { ...current.config, products: mergeById(current.config.products, imported.config.products) }
+      : current.config,
+    logs: mergeLogs(current.logs, imported.logs),
+    taperPlan: current.taperPlan || imported.taperPlan || null,
+    cravings: mergeById(current.cravings, imported.cravings || []),
+    spending: purchases === current.spending.purchases ? current.spending : { ...current.spending, purchases },
+    quiz: current.quiz || imported.quiz || null,
+  };
+};
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The date column is the day each entry counts towards in the app (see getLogDate).
+export const logsToCsv = (logs: DoseEvent[], dayStartHour = 0) => {
+  const rows = [...logs]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map(log => [
+      log.timestamp,
+      getLogDate(log, dayStartHour),
+      log.unitType,
+      log.productName || '',
+      log.quantity,
+      log.strength,
+      log.absorptionRate,
+      Number(getAbsorbedMg(log).toFixed(3)),
+      log.absorptionModel || '',
+      log.vapeMeasure || '',
+      log.puffsPerUnit ?? '',
+      log.utcOffset ?? '',
+    ].map(escapeCsv).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes and CRLF line endings.
+const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const parseBackupJson = (fileName: string, text: string): ImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { fileName, logs: [], errors: ['File is not valid JSON'] };
+  }
+  if (!isRecord(data) || data.app !== 'NicTrack' || typeof data.version !== 'number') {
+    return { fileName, logs: [], errors: ['File is not a NicTrack backup'] };
+  }
+  if (data.version > BACKUP_VERSION) {
+    return { fileName, logs: [], errors: [`Backup version ${data.version} is newer than this app supports`] };
+  }
+  if (!Array.isArray(data.logs)) {
+    return { fileName, logs: [], errors: ['Backup has no logs'] };
+  }
+
+  const logs: DoseEvent[] = [];
+  const errors: string[] = [];
+  data.logs.forEach((raw: unknown, index: number) => {
+    const result = validateDoseEvent(raw);
+    if (typeof result === 'string') errors.push(`Entry ${index + 1}: ${result}`);
+    else logs.push(result);
+  });
+
+  // Version 1 backups predate the craving log, so leave existing cravings alone for them.
+  const rawCravings: unknown[] | undefined = Array.isArray(data.cravings) ? data.cravings : undefined;
+  const cravings: Craving[] = [];
+  rawCravings?.forEach((raw, index) => {
+    const result = validateCraving(raw);
+    if (typeof result === 'string') errors.push(`Craving ${index + 1}: ${result}`);
+    else cravings.push(result);
+  });
+
+  const config = data.config ? validateUserConfig(data.config) : null;
+  if (typeof config === 'string') errors.push(`Settings were malformed (${config}) and will not be imported`);
+  const taperPlan = data.taperPlan ? validateTaperPlan(data.taperPlan) : null;
+  if (typeof taperPlan === 'string') errors.push(`Taper plan was malformed (${taperPlan}) and will not be imported`);
+  const spending = data.spending ? validateSpending(data.spending) : undefined;
+  if (typeof spending === 'string') errors.push(`Purchases were malformed (${spending}) and will not be imported`);
+  const quiz = data.quiz ? validateQuizResult(data.quiz) : undefined;
+  if (typeof quiz === 'string') errors.push(`Quiz results were malformed (${quiz}) and will not be imported`);
+
+  return {
+    fileName,
+    logs,
+    cravings: rawCravings && cravings,
+    config: typeof config === 'string' ? undefined : config,
+    taperPlan: typeof taperPlan === 'string' ? undefined : taperPlan,
+    spending: typeof spending === 'string' ? undefined : spending,
+    quiz: typeof quiz === 'string' ? undefined : quiz,
+    errors,
+  };
+};
+
+export const parseBackupCsv = (fileName: string, text: string): ImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { fileName, logs: [], errors: ['File is empty'] };
+  const columns = header.map(h => h.trim().toLowerCase());
+  const col = (row: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index === -1 ? '' : (row[index] || '').trim();
+  };
+  if (!columns.includes('unit') || !columns.includes('quantity') || !(columns.includes('timestamp') || columns.includes('date'))) {
+    return { fileName, logs: [], errors: ['CSV needs unit, quantity and date (or timestamp) columns'] };
+  }
+
+  const logs: DoseEvent[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, index) => {
+    const quantity = parseFloat(col(row, 'quantity'));
+    const mg = parseFloat(col(row, 'mg'));
+    const strength = parseFloat(col(row, 'strength_mg'));
+    const absorptionRate = parseFloat(col(row, 'absorption_rate'));
+    // Rows from other tools may carry only total mg; treat it as fully absorbed.
+    const hasStrength = !isNaN(strength) && !isNaN(absorptionRate);
+    const result = validateDoseEvent({
+      timestamp: col(row, 'timestamp') || (col(row, 'date') && `${col(row, 'date')}T12:00:00`),
+      unitType: col(row, 'unit'),
+      quantity,
+      strength: hasStrength ? strength : quantity > 0 ? mg / quantity : 0,
+      absorptionRate: hasStrength ? absorptionRate : 1,
+      productName: col(row, 'product') || undefined,
+      absorptionModel: col(row, 'absorption_model') || undefined,
+      vapeMeasure: col(row, 'vape_measure') || undefined,
+      puffsPerUnit: parseFloat(col(row, 'puffs_per_unit')),
+      utcOffset: parseFloat(col(row, 'utc_offset')),
+    });
+    if (typeof result === 'string') errors.push(`Row ${index + 2}: ${result}`);
+    else logs.push(result);
+  });
+  return { fileName, logs, errors };
+};
@@ -0,0 +1,91 @@
+import type { AbsorptionModel, CravingTrigger, NicotineSource, NicotineType, PreferredUnit } from '../types';
+
+export const NICOTINE_MG_PER_CIG = 2.0;
+export const ABSORBED_MG_PER_POUCH_3MG = 1.5;
+export const ABSORBED_MG_PER_POUCH_6MG = 3.0;
+export const ABSORBED_MG_PER_PUFF = 0.08;
+export const PUFFS_PER_DEVICE = 5000;
+export const LOZENGE_ABSORPTION_RATE = 0.5;
+export const PATCH_ABSORPTION_RATE = 1.0;
+export const DAILY_LIMIT_MG = 20; // default for UserConfig.dailyLimitMg
+export const DAY_START_HOUR = 0; // default for UserConfig.dayStartHour: days run midnight to midnight
+
+export const DELIVERY_LABELS: Record<PreferredUnit, string> = {
+  cigs: 'Cigarette',
+  pouches: 'Pouch',
+  puffs: 'Vape (puffs)',
+  vape_cadence: 'Vape (cadence)',
+  lozenge: 'Lozenge',
+  patch: 'Patch',
+};
+
+export const CRAVING_TRIGGER_LABELS: Record<CravingTrigger, { label: string, icon: string }> = {
+  coffee: { label: 'Coffee', icon: '☕' },
+  stress: { label: 'Stress', icon: '😣' },
+  after_meals: { label: 'After meals', icon: '🍽️' },
+  alcohol: { label: 'Alcohol', icon: '🍺' },
+  driving: { label: 'Driving', icon: '🚗' },
+  custom: { label: 'Other', icon: '✏️' },
+};
+
+export const NICOTINE_SOURCES: NicotineSource[] = ['cigarettes', 'pouches', 'vape', 'lozenge', 'patch'];
+export const UNIT_TYPES: PreferredUnit[] = ['cigs', 'pouches', 'puffs', 'vape_cadence', 'lozenge', 'patch'];
+export const CRAVING_TRIGGERS: CravingTrigger[] = ['coffee', 'stress', 'after_meals', 'alcohol', 'driving', 'custom'];
+
+// The constants above are the conservative preset, which every release before configurable models used.
+export const ABSORPTION_PRESETS: AbsorptionModel[] = [
+  {
+    name: 'Conservative high-end',
+    mgPerCig: NICOTINE_MG_PER_CIG,
+    mgPerPouch3mg: ABSORBED_MG_PER_POUCH_3MG,
+    mgPerPouch6mg: ABSORBED_MG_PER_POUCH_6MG,
+    mgPerPuff: ABSORBED_MG_PER_PUFF,
+    puffsPerDevice: PUFFS_PER_DEVICE,
+    lozengeAbsorptionRate: LOZENGE_ABSORPTION_RATE,
+    patchAbsorptionRate: PATCH_ABSORPTION_RATE,
+  },
+  {
+    name: 'Literature median',
+    mgPerCig: 1.1,
+    mgPerPouch3mg: 1.0,
+    mgPerPouch6mg: 2.0,
+    mgPerPuff: 0.05,
+    puffsPerDevice: PUFFS_PER_DEVICE,
+    lozengeAbsorptionRate: 0.4,
+    patchAbsorptionRate: 0.9,
+  },
+  {
+    name: 'Low-end',
+    mgPerCig: 0.5,
+    mgPerPouch3mg: 0.6,
+    mgPerPouch6mg: 1.2,
+    mgPerPuff: 0.03,
+    puffsPerDevice: PUFFS_PER_DEVICE,
+    lozengeAbsorptionRate: 0.3,
+    patchAbsorptionRate: 0.8,
+  },
+];
+
+export const DEFAULT_ABSORPTION_MODEL = ABSORPTION_PRESETS[0];
+
+// Share of the nicotine in vaped e-liquid that is absorbed; salts are smoother to inhale deeply.
+export const VAPE_ABSORPTION_RATES: Record<NicotineType, number> = {
+  salt: 0.5,
+  freebase: 0.35,
+};
+export const NICOTINE_TYPES: NicotineType[] = ['salt', 'freebase'];
+export const DEFAULT_PUFFS_PER_ML = 150;
+
+// Fraction of a product's nicotine the model expects to be absorbed.
+export const getDefaultAbsorptionRate = (model: AbsorptionModel, deliveryType: PreferredUnit, strength: number) => {
+  switch (deliveryType) {
+    case 'pouches': return strength <= 3 ? model.mgPerPouch3mg / 3 : model.mgPerPouch6mg / 6;
+    case 'lozenge': return model.lozengeAbsorptionRate;
+    case 'patch': return model.patchAbsorptionRate;
+    default: return 1; // cigarette and vape strengths are already absorbed mg
+  }
+};
+
+// mg per logged "day" for someone finishing one disposable every `daysPerVape` days.
+export const getCadenceStrength = (daysPerVape: number, model: AbsorptionModel) =>
+  (model.puffsPerDevice / daysPerVape) * model.mgPerPuff;
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ABSORPTION_PRESETS, getCadenceStrength, getDefaultAbsorptionRate } from './constants';
+import { addProductToLibrary, applyModelToProducts, createProduct, getAbsorbedMg, getVapeMeasure } from './conversion';
+import { makeLog } from './fixtures';
+import type { VapeProfile } from '../types';
+
+const [conservative, median] = ABSORPTION_PRESETS;
+
+describe('getAbsorbedMg', () => {
+  it('multiplies quantity, strength and absorption rate', () => {
+    expect(getAbsorbedMg(makeLog('2026-01-01', 0, { quantity: 3, strength: 6, absorptionRate: 0.5 }))).toBe(9);
+  });
+});
+
+describe('getDefaultAbsorptionRate', () => {
+  it('derives pouch rates from the model by strength', () => {
+    expect(getDefaultAbsorptionRate(conservative, 'pouches', 3)).toBeCloseTo(0.5);
+    expect(getDefaultAbsorptionRate(conservative, 'pouches', 6)).toBeCloseTo(0.5);
+    expect(getDefaultAbsorptionRate(median, 'pouches', 3)).toBeCloseTo(1 / 3);
+  });
+
+  it('uses the model rates for lozenges and patches', () => {
+    expect(getDefaultAbsorptionRate(median, 'lozenge', 4)).toBe(median.lozengeAbsorptionRate);
+    expect(getDefaultAbsorptionRate(median, 'patch', 21)).toBe(median.patchAbsorptionRate);
+  });
+
+  it('treats cigarette and vape strengths as already absorbed', () => {
+    expect(getDefaultAbsorptionRate(median, 'cigs', 1.1)).toBe(1);
+    expect(getDefaultAbsorptionRate(median, 'puffs', 0.05)).toBe(1);
+  });
+});
+
+describe('getCadenceStrength', () => {
+  it('spreads one disposable over the given days', () => {
+    expect(getCadenceStrength(2, conservative)).toBeCloseTo(200);
+  });
+});
+
+describe('getVapeMeasure', () => {
+  const profile: VapeProfile = { nicotineType: 'salt', mgPerMl: 20, podMl: 2, puffsPerMl: 150 };
+
+  it('converts pods, mL and puffs to liquid mg and puffs', () => {
+    expect(getVapeMeasure(profile, 'pod')).toEqual({ strength: 40, puffs: 300 });
+    expect(getVapeMeasure(profile, 'ml')).toEqual({ strength: 20, puffs: 150 });
+    const puff = getVapeMeasure(profile, 'puff');
+    expect(puff.strength).toBeCloseTo(20 / 150);
+    expect(puff.puffs).toBeCloseTo(1);
+  });
+});
+
+describe('createProduct', () => {
+  it('fills in the model default absorption rate', () => {
+    const product = createProduct('Snus', 'pouches', 6, conservative);
+    expect(product).toMatchObject({ name: 'Snus', deliveryType: 'pouches', strength: 6, absorptionRate: 0.5 });
+    expect(product.id).toBeTruthy();
+  });
+});
+
+describe('addProductToLibrary', () => {
+  const library = [createProduct('Zyn', 'pouches', 6, conservative)];
+
+  it('reuses a product of the same type and strength', () => {
+    expect(addProductToLibrary(library, createProduct('Pouch', 'pouches', 6, conservative))).toEqual({ products: library, product: library[0] });
+  });
+
+  it('adds products that are not in the library yet', () => {
+    const product = createProduct('Pouch', 'pouches', 3, conservative);
+    expect(addProductToLibrary(library, product)).toEqual({ products: [...library, product], product });
+  });
+});
+
+describe('applyModelToProducts', () => {
+  it('moves products on the old defaults to the new model', () => {
+    const [cig, pouch] = applyModelToProducts([
+      createProduct('Cigarette', 'cigs', conservative.mgPerCig, conservative),
+      createProduct('Pouch', 'pouches', 6, conservative),
+    ], conservative, median);
+    expect(cig.strength).toBe(median.mgPerCig);
+    expect(pouch.strength).toBe(6);
+    expect(pouch.absorptionRate).toBeCloseTo(median.mgPerPouch6mg / 6);
+  });
+
+  it('keeps values set by hand', () => {
+    const custom = { ...createProduct('Cigarette', 'cigs', 1.7, conservative), absorptionRate: 0.9 };
+    const [result] = applyModelToProducts([custom], conservative, median);
+    expect(result.strength).toBe(1.7);
+    expect(result.absorptionRate).toBe(0.9);
+  });
+
+  it('rescales cadence products with the puff model', () => {
+    const cadence = createProduct('Disposable', 'vape_cadence', getCadenceStrength(3, conservative), conservative);
+    const [result] = applyModelToProducts([cadence], conservative, median);
+    expect(result.strength).toBeCloseTo(getCadenceStrength(3, median));
+  });
+});
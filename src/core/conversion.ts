@@ -0,0 +1,44 @@
+import { getCadenceStrength, getDefaultAbsorptionRate } from './constants';
+import type { AbsorptionModel, DoseEvent, PreferredUnit, Product, VapeMeasure, VapeProfile } from '../types';
+
+export const getAbsorbedMg = (log: DoseEvent) => log.quantity * log.strength * log.absorptionRate;
+
+// Liquid mg and puff count for one `measure` of a vape profile; absorption is applied separately.
+export const getVapeMeasure = (profile: VapeProfile, measure: VapeMeasure) => {
+  const ml = measure === 'pod' ? profile.podMl : measure === 'ml' ? 1 : 1 / profile.puffsPerMl;
+  return { strength: ml * profile.mgPerMl, puffs: ml * profile.puffsPerMl };
+};
+
+export const createProduct = (name: string, deliveryType: PreferredUnit, strength: number, model: AbsorptionModel): Product => ({
+  id: crypto.randomUUID(),
+  name,
+  deliveryType,
+  strength,
+  absorptionRate: getDefaultAbsorptionRate(model, deliveryType, strength),
+});
+
+// Re-running the quiz adds its product to the library rather than replacing it, unless one of the
+// same type and strength is already there; `product` is whichever the library ends up using.
+export const addProductToLibrary = (products: Product[], product: Product) => {
+  const match = products.find(p => p.deliveryType === product.deliveryType && p.strength === product.strength);
+  return match ? { products, product: match } : { products: [...products, product], product };
+};
+
+export const isSameValue = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+// Products still on the old model's defaults follow the new one; values set by hand are kept.
+// Logged entries are untouched, as they pin the values they were logged with.
+export const applyModelToProducts = (products: Product[], from: AbsorptionModel, to: AbsorptionModel) => products.map(product => {
+  let strength = product.strength;
+  if (product.deliveryType === 'cigs' && isSameValue(strength, from.mgPerCig)) strength = to.mgPerCig;
+  if (product.deliveryType === 'puffs' && isSameValue(strength, from.mgPerPuff)) strength = to.mgPerPuff;
+  if (product.deliveryType === 'vape_cadence') {
+    strength *= getCadenceStrength(1, to) / getCadenceStrength(1, from);
+  }
+  const usesDefaultRate = isSameValue(product.absorptionRate, getDefaultAbsorptionRate(from, product.deliveryType, product.strength));
+  return {
+    ...product,
+    strength,
+    absorptionRate: usesDefaultRate ? getDefaultAbsorptionRate(to, product.deliveryType, strength) : product.absorptionRate,
+  };
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeCravings, getCravingTriggerName } from './cravings';
+import { at } from './fixtures';
+import type { Craving } from '../types';
+
+const craving = (time: string, overrides: Partial<Craving> = {}): Craving => ({
+  id: time,
+  timestamp: at('2026-01-05', time).toISOString(),
+  intensity: 3,
+  trigger: 'coffee',
+  outcome: 'resisted',
+  ...overrides,
+});
+
+describe('getCravingTriggerName', () => {
+  it('uses the custom trigger text when there is one', () => {
+    expect(getCravingTriggerName(craving('09:00'))).toBe('Coffee');
+    expect(getCravingTriggerName(craving('09:00', { trigger: 'custom', customTrigger: 'Boredom' }))).toBe('Boredom');
+    expect(getCravingTriggerName(craving('09:00', { trigger: 'custom' }))).toBe('Other');
+  });
+});
+
+describe('analyzeCravings', () => {
+  const cravings = [
+    craving('08:00'),
+    craving('08:30', { intensity: 5, outcome: 'used' }),
+    craving('17:00', { trigger: 'stress', intensity: 1 }),
+    { ...craving('08:00'), id: 'old', timestamp: at('2025-12-01', '08:00').toISOString() },
+  ];
+
+  it('only counts cravings since the start', () => {
+    const stats = analyzeCravings(cravings, at('2026-01-01', '00:00'));
+    expect(stats).toMatchObject({ total: 3, resisted: 2, used: 1, averageIntensity: 3 });
+    expect(stats.resistedRate).toBeCloseTo(2 / 3);
+  });
+
+  it('ranks triggers and hours', () => {
+    const stats = analyzeCravings(cravings, at('2026-01-01', '00:00'));
+    expect(stats.topTriggers).toEqual([['Coffee', 2], ['Stress', 1]]);
+    expect(stats.peakHours[0]).toEqual({ hour: '08', count: 2 });
+    expect(stats.hours).toHaveLength(24);
+  });
+
+  it('handles an empty window', () => {
+    expect(analyzeCravings([], at('2026-01-01', '00:00'))).toMatchObject({ total: 0, resistedRate: 0, averageIntensity: 0 });
+  });
+});
@@ -0,0 +1,31 @@
+import { CRAVING_TRIGGER_LABELS } from './constants';
+import type { Craving } from '../types';
+
+export const getCravingTriggerName = (craving: Craving) =>
+  craving.trigger === 'custom' && craving.customTrigger ? craving.customTrigger : CRAVING_TRIGGER_LABELS[craving.trigger].label;
+
+// Summarises cravings logged on or after `start`.
+export const analyzeCravings = (cravings: Craving[], start: Date) => {
+  const inWindow = cravings.filter(c => new Date(c.timestamp) >= start);
+  const resisted = inWindow.filter(c => c.outcome === 'resisted').length;
+
+  const triggers = new Map<string, number>();
+  inWindow.forEach(c => {
+    const name = getCravingTriggerName(c);
+    triggers.set(name, (triggers.get(name) || 0) + 1);
+  });
+
+  const hours = Array.from({ length: 24 }, (_, hour) => ({ hour: String(hour).padStart(2, '0'), count: 0 }));
+  inWindow.forEach(c => hours[new Date(c.timestamp).getHours()].count++);
+
+  return {
+    total: inWindow.length,
+    resisted,
+    used: inWindow.length - resisted,
+    resistedRate: inWindow.length > 0 ? resisted / inWindow.length : 0,
+    averageIntensity: inWindow.length > 0 ? inWindow.reduce((sum, c) => sum + c.intensity, 0) / inWindow.length : 0,
+    topTriggers: [...triggers.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5),
+    peakHours: hours.filter(h => h.count > 0).sort((a, b) => b.count - a.count).slice(0, 3),
+    hours,
+  };
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { ABSORPTION_PRESETS } from './constants';
+import { createProduct } from './conversion';
+import {
+  estimateDailyMg,
+  getBaselineWeekMg,
+  getDependenceLevel,
+  getDependenceScore,
+  recommendNrt,
+  recommendTaperPlan
+} from './dependence';
+import { day, makeLog } from './fixtures';
+import { getTaperAllowance } from './taper';
+import type { DependenceAnswers } from '../types';
+
+const model = ABSORPTION_PRESETS[0];
+const answers: DependenceAnswers = {
+  timeToFirstUse: 'after60',
+  dailyQuantity: 10,
+  hardToRefrain: false,
+  hateToGiveUpFirst: false,
+  moreInMorning: false,
+  useWhenIll: false,
+};
+
+describe('estimateDailyMg', () => {
+  it('converts the typical daily quantity to absorbed mg', () => {
+    expect(estimateDailyMg(answers, createProduct('Pouch', 'pouches', 6, model))).toBeCloseTo(30);
+    expect(estimateDailyMg(answers, createProduct('Cigarette', 'cigs', model.mgPerCig, model))).toBeCloseTo(20);
+  });
+});
+
+describe('getDependenceScore', () => {
+  it('is zero for light, late, easy use', () => {
+    expect(getDependenceScore(answers, 10 * model.mgPerCig, model)).toBe(0);
+  });
+
+  it('reaches ten for the heaviest answers', () => {
+    const heaviest: DependenceAnswers = {
+      timeToFirstUse: 'within5',
+      dailyQuantity: 40,
+      hardToRefrain: true,
+      hateToGiveUpFirst: true,
+      moreInMorning: true,
+      useWhenIll: true,
+    };
+    expect(getDependenceScore(heaviest, 40 * model.mgPerCig, model)).toBe(10);
+  });
+
+  it('scores daily use by cigarette equivalent', () => {
+    expect(getDependenceScore(answers, 11 * model.mgPerCig, model)).toBe(1);
+    expect(getDependenceScore(answers, 21 * model.mgPerCig, model)).toBe(2);
+    expect(getDependenceScore(answers, 31 * model.mgPerCig, model)).toBe(3);
+  });
+
+  it('scores time to first use', () => {
+    expect(getDependenceScore({ ...answers, timeToFirstUse: 'within30' }, 0, model)).toBe(2);
+    expect(getDependenceScore({ ...answers, timeToFirstUse: 'within60' }, 0, model)).toBe(1);
+  });
+});
+
+describe('getDependenceLevel', () => {
+  it('uses the usual Fagerström bands', () => {
+    expect([0, 2, 3, 4, 5, 6, 7, 8, 10].map(getDependenceLevel)).toEqual([
+      'very low', 'very low', 'low', 'low', 'medium', 'high', 'high', 'very high', 'very high',
+    ]);
+  });
+});
+
+describe('getBaselineWeekMg', () => {
+  it('needs a full week of history', () => {
+    expect(getBaselineWeekMg([], day('2026-01-10'))).toBeNull();
+    expect(getBaselineWeekMg([makeLog('2026-01-04', 10)], day('2026-01-10'))).toBeNull();
+  });
+
+  it('averages the last 7 completed days', () => {
+    const logs = [
+      makeLog('2026-01-01', 100),
+      makeLog('2026-01-03', 14),
+      makeLog('2026-01-09', 14),
+      makeLog('2026-01-10', 100),
+    ];
+    expect(getBaselineWeekMg(logs, day('2026-01-10'))).toBe(4);
+  });
+});
+
+describe('recommendNrt', () => {
+  it('starts heavy or dependent users on a 21mg patch', () => {
+    expect(recommendNrt(6, answers, 5, model)).toMatchObject({ patchMg: 21, taperWeeks: 12 });
+    expect(recommendNrt(0, answers, 21 * model.mgPerCig, model).patchMg).toBe(21);
+  });
+
+  it('uses lower patches for moderate and light use', () => {
+    expect(recommendNrt(3, answers, 5, model)).toMatchObject({ patchMg: 14, taperWeeks: 10 });
+    expect(recommendNrt(0, answers, 5, model)).toMatchObject({ patchMg: 7, taperWeeks: 8 });
+  });
+
+  it('suggests stronger short-acting NRT for early first use', () => {
+    expect(recommendNrt(0, { ...answers, timeToFirstUse: 'within30' }, 5, model).shortActingMg).toBe(4);
+    expect(recommendNrt(0, answers, 5, model).shortActingMg).toBe(2);
+  });
+});
+
+describe('recommendTaperPlan', () => {
+  it('steps down from the baseline to zero in three steps', () => {
+    const plan = recommendTaperPlan(21, { patchMg: 21, shortActingMg: 4, taperWeeks: 12 }, day('2026-01-01'));
+    expect(plan).toMatchObject({ startDate: '2026-01-01', startMg: 21, targetDate: '2026-03-26', targetMg: 0, curve: 'step', stepDays: 28 });
+    expect(getTaperAllowance(plan, day('2026-01-29'))).toBeCloseTo(14);
+    expect(getTaperAllowance(plan, day('2026-02-26'))).toBeCloseTo(7);
+  });
+});
@@ -0,0 +1,73 @@
+import { addWeeks, format, subDays } from 'date-fns';
+import { getDailyTotals, sumDays } from './aggregation';
+import { getLogDate, getLogicalDay } from './logs';
+import type { AbsorptionModel, DependenceAnswers, DoseEvent, Product, TaperPlan, TimeToFirstUse } from '../types';
+
+export type DependenceLevel = 'very low' | 'low' | 'medium' | 'high' | 'very high';
+
+export interface NrtRecommendation {
+  patchMg: number; // 24-hour patch strength
+  shortActingMg: number; // gum or lozenge strength for breakthrough cravings
+  taperWeeks: number;
+}
+
+const TIME_TO_FIRST_USE_POINTS: Record<TimeToFirstUse, number> = {
+  within5: 3,
+  within30: 2,
+  within60: 1,
+  after60: 0,
+};
+
+// Fagerström scores daily use in cigarettes; other products are compared by absorbed nicotine.
+const getDailyQuantityPoints = (cigarettesPerDay: number) =>
+  cigarettesPerDay > 30 ? 3 : cigarettesPerDay > 20 ? 2 : cigarettesPerDay > 10 ? 1 : 0;
+
+// Absorbed mg on a typical day, from the quiz answer and product.
+export const estimateDailyMg = (answers: DependenceAnswers, product: Product) =>
+  answers.dailyQuantity * product.strength * product.absorptionRate;
+
+export const getDependenceScore = (answers: DependenceAnswers, dailyMg: number, model: AbsorptionModel) =>
+  TIME_TO_FIRST_USE_POINTS[answers.timeToFirstUse]
+  + getDailyQuantityPoints(dailyMg / model.mgPerCig)
+  + Number(answers.hardToRefrain)
+  + Number(answers.hateToGiveUpFirst)
+  + Number(answers.moreInMorning)
+  + Number(answers.useWhenIll);
+
+export const getDependenceLevel = (score: number): DependenceLevel =>
+  score >= 8 ? 'very high' : score >= 6 ? 'high' : score === 5 ? 'medium' : score >= 3 ? 'low' : 'very low';
+
+// Average absorbed mg over the last 7 completed days, once at least that much history is logged.
+export const getBaselineWeekMg = (logs: DoseEvent[], today: Date, dayStartHour = 0) => {
+  const end = subDays(getLogicalDay(today, dayStartHour), 1);
+  const start = subDays(end, 6);
+  const firstDate = logs.map(l => getLogDate(l, dayStartHour)).sort()[0];
+  if (!firstDate || firstDate > format(start, 'yyyy-MM-dd')) return null;
+  return sumDays(getDailyTotals(logs, dayStartHour), start, end) / 7;
+};
+
+// Usual NRT starting doses: a 21mg patch for heavier or more dependent users, 14mg for moderate
+// use and 7mg for light use, with 4mg gum or lozenges when the first use comes within 30 minutes.
+export const recommendNrt = (score: number, answers: DependenceAnswers, baselineMg: number, model: AbsorptionModel): NrtRecommendation => {
+  const cigarettesPerDay = baselineMg / model.mgPerCig;
+  const patchMg = score >= 6 || cigarettesPerDay > 20 ? 21 : score >= 3 || cigarettesPerDay > 10 ? 14 : 7;
+  return {
+    patchMg,
+    shortActingMg: TIME_TO_FIRST_USE_POINTS[answers.timeToFirstUse] >= 2 ? 4 : 2,
+    taperWeeks: patchMg === 21 ? 12 : patchMg === 14 ? 10 : 8,
+  };
+};
+
+// Steps down from the baseline to zero in three equal steps, like a 21 → 14 → 7mg patch course.
+export const recommendTaperPlan = (baselineMg: number, recommendation: NrtRecommendation, start: Date): TaperPlan => {
+  const days = recommendation.taperWeeks * 7;
+  return {
+    startDate: format(start, 'yyyy-MM-dd'),
+    startMg: Number(baselineMg.toFixed(1)),
+    targetDate: format(addWeeks(start, recommendation.taperWeeks), 'yyyy-MM-dd'),
+    targetMg: 0,
+    curve: 'step',
+    weeklyReductionPercent: 10,
+    stepDays: Math.ceil(days / 3),
+  };
+};
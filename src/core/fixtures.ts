@@ -0,0 +1,29 @@
+import type { DoseEvent, TaperPlan } from '../types';
+
+// Shared test data. Dates are local, like the app's own day boundaries.
+
+export const day = (date: string) => new Date(date + 'T00:00:00');
+
+export const at = (date: string, time = '12:00') => new Date(`${date}T${time}:00`);
+
+// An entry absorbing exactly `mg`, logged at noon on `date`.
+export const makeLog = (date: string, mg: number, overrides: Partial<DoseEvent> = {}): DoseEvent => ({
+  id: `${date}-${mg}-${Math.random()}`,
+  timestamp: at(date).toISOString(),
+  unitType: 'pouches',
+  quantity: 1,
+  strength: mg,
+  absorptionRate: 1,
+  ...overrides,
+});
+
+export const makePlan = (overrides: Partial<TaperPlan> = {}): TaperPlan => ({
+  startDate: '2026-01-01',
+  startMg: 20,
+  targetDate: '2026-01-11',
+  targetMg: 10,
+  curve: 'linear',
+  weeklyReductionPercent: 10,
+  stepDays: 5,
+  ...overrides,
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { at, day, makeLog, makePlan } from './fixtures';
+import { MILESTONES, getMilestoneProgress, getStreakStats } from './goals';
+
+const daily = (start: string, mgs: number[]) => mgs.map((mg, i) => {
+  const date = new Date(day(start));
+  date.setDate(date.getDate() + i);
+  const iso = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  return makeLog(iso, mg);
+});
+
+describe('getStreakStats', () => {
+  it('is empty without history', () => {
+    expect(getStreakStats([], null, 20, day('2026-01-10'))).toMatchObject({ trackedDays: 0, baselineMg: null, bestReduction: 0 });
+  });
+
+  it('only counts completed days', () => {
+    const stats = getStreakStats(daily('2026-01-01', [10, 10, 10]), null, 20, day('2026-01-03'));
+    expect(stats.trackedDays).toBe(2);
+  });
+
+  it('tracks current and longest streaks under the daily limit', () => {
+    const stats = getStreakStats(daily('2026-01-01', [10, 10, 10, 30, 10, 10]), null, 20, day('2026-01-07'));
+    expect(stats.longestUnderTarget).toBe(3);
+    expect(stats.currentUnderTarget).toBe(2);
+  });
+
+  it('groups late-night entries with the previous day when days start later', () => {
+    const logs = [...daily('2026-01-01', [10, 10, 10]), makeLog('2026-01-02', 30, { timestamp: at('2026-01-03', '02:00').toISOString() })];
+    const stats = getStreakStats(logs, null, 20, at('2026-01-04', '02:00'), 4);
+    expect(stats.trackedDays).toBe(2);
+    expect(stats.longestUnderTarget).toBe(1);
+    expect(stats.currentUnderTarget).toBe(0);
+  });
+
+  it('uses the taper allowance once a plan has started', () => {
+    const plan = makePlan({ startDate: '2026-01-03', startMg: 8, targetDate: '2026-01-10', targetMg: 8 });
+    const stats = getStreakStats(daily('2026-01-01', [10, 10, 10, 5]), plan, 20, day('2026-01-05'));
+    expect(stats.longestUnderTarget).toBe(2);
+    expect(stats.currentUnderTarget).toBe(1);
+  });
+
+  it('counts nicotine-free days, including days with no entries', () => {
+    const logs = [...daily('2026-01-01', [10, 0]), makeLog('2026-01-05', 4)];
+    const stats = getStreakStats(logs, null, 20, day('2026-01-06'));
+    expect(stats.freeDays).toBe(3);
+    expect(stats.longestFree).toBe(3);
+    expect(stats.currentFree).toBe(0);
+  });
+
+  it('measures the best 7-day reduction against the first week', () => {
+    const stats = getStreakStats(daily('2026-01-01', [...Array(7).fill(20), ...Array(7).fill(10)]), null, 20, day('2026-01-15'));
+    expect(stats.baselineMg).toBe(20);
+    expect(stats.bestReduction).toBeCloseTo(0.5);
+  });
+
+  it('uses the plan start dose as the baseline', () => {
+    const plan = makePlan({ startDate: '2026-01-01', startMg: 40 });
+    expect(getStreakStats(daily('2026-01-01', [10]), plan, 20, day('2026-01-02')).baselineMg).toBe(40);
+  });
+});
+
+describe('MILESTONES', () => {
+  it('reads progress from the streak stats', () => {
+    const stats = getStreakStats(daily('2026-01-01', [...Array(7).fill(20), ...Array(7).fill(10)]), null, 20, day('2026-01-15'));
+    const progress = Object.fromEntries(MILESTONES.map(m => [m.id, m.progress(stats)]));
+    expect(progress.week_tracked).toBe(14);
+    expect(progress.reduction_50).toBe(50);
+    expect(progress.first_free_day).toBe(0);
+  });
+});
+
+describe('getMilestoneProgress', () => {
+  it('caps progress at each goal and marks what was reached', () => {
+    const stats = getStreakStats(daily('2026-01-01', [...Array(7).fill(20), ...Array(7).fill(10)]), null, 20, day('2026-01-15'));
+    const progress = Object.fromEntries(getMilestoneProgress(stats).map(m => [m.id, m]));
+    expect(progress.week_tracked).toMatchObject({ current: 7, reached: true });
+    expect(progress.reduction_50).toMatchObject({ current: 50, reached: true });
+    expect(progress.first_free_day).toMatchObject({ current: 0, reached: false });
+  });
+
+  it('never shows negative progress', () => {
+    const stats = getStreakStats(daily('2026-01-01', [...Array(7).fill(10), ...Array(7).fill(20)]), null, 20, day('2026-01-15'));
+    expect(getMilestoneProgress(stats).find(m => m.id === 'reduction_25')).toMatchObject({ current: 0, reached: false });
+  });
+});
@@ -0,0 +1,103 @@
+import { eachDayOfInterval, format, subDays } from 'date-fns';
+import { getDailyTotals } from './aggregation';
+import { getLogicalDay } from './logs';
+import { getTaperAllowance } from './taper';
+import type { DoseEvent, TaperPlan } from '../types';
+
+export interface StreakStats {
+  trackedDays: number;
+  currentUnderTarget: number;
+  longestUnderTarget: number;
+  currentFree: number;
+  longestFree: number;
+  freeDays: number;
+  baselineMg: number | null;
+  bestReduction: number; // 0-1, lowest 7-day average compared with the baseline
+}
+
+// Streaks over completed days, from the first logged day up to yesterday.
+export const getStreakStats = (
+  logs: DoseEvent[],
+  plan: TaperPlan | null,
+  dailyLimitMg: number,
+  today: Date,
+  dayStartHour = 0
+): StreakStats => {
+  const totals = getDailyTotals(logs, dayStartHour);
+
+  const firstDate = [...totals.keys()].sort()[0];
+  const end = subDays(getLogicalDay(today, dayStartHour), 1);
+  const days = firstDate && firstDate <= format(end, 'yyyy-MM-dd')
+    ? eachDayOfInterval({ start: new Date(firstDate + 'T00:00:00'), end })
+    : [];
+
+  let currentUnderTarget = 0, longestUnderTarget = 0, currentFree = 0, longestFree = 0, freeDays = 0;
+  const dailyMg = days.map(day => {
+    const dateStr = format(day, 'yyyy-MM-dd');
+    const mg = totals.get(dateStr) || 0;
+    const target = plan && dateStr >= plan.startDate ? getTaperAllowance(plan, day) : dailyLimitMg;
+
+    currentUnderTarget = mg <= target ? currentUnderTarget + 1 : 0;
+    longestUnderTarget = Math.max(longestUnderTarget, currentUnderTarget);
+    currentFree = mg === 0 ? currentFree + 1 : 0;
+    longestFree = Math.max(longestFree, currentFree);
+    if (mg === 0) freeDays++;
+    return mg;
+  });
+
+  // The taper plan's starting dose, or else the average of the first tracked week.
+  const baselineMg = plan
+    ? plan.startMg
+    : dailyMg.length >= 7 ? dailyMg.slice(0, 7).reduce((sum, mg) => sum + mg, 0) / 7 : null;
+
+  let bestReduction = 0;
+  if (baselineMg) {
+    for (let i = 7; i + 7 <= dailyMg.length; i++) {
+      const average = dailyMg.slice(i, i + 7).reduce((sum, mg) => sum + mg, 0) / 7;
+      bestReduction = Math.max(bestReduction, 1 - average / baselineMg);
+    }
+  }
+
+  return {
+    trackedDays: days.length,
+    currentUnderTarget,
+    longestUnderTarget,
+    currentFree,
+    longestFree,
+    freeDays,
+    baselineMg,
+    bestReduction,
+  };
+};
+
+export interface Milestone {
+  id: string;
+  label: string;
+  icon: string;
+  goal: number;
+  unit: string;
+  progress: (stats: StreakStats) => number;
+}
+
+// In the order they're usually reached; the first one not yet reached is shown as "next".
+export const MILESTONES: Milestone[] = [
+  { id: 'week_tracked', label: 'First week tracked', icon: '📅', goal: 7, unit: 'days', progress: s => s.trackedDays },
+  { id: 'under_target_3', label: '3 days under target', icon: '🎯', goal: 3, unit: 'days', progress: s => s.longestUnderTarget },
+  { id: 'under_target_7', label: '7 days under target', icon: '🏅', goal: 7, unit: 'days', progress: s => s.longestUnderTarget },
+  { id: 'reduction_25', label: '25% below baseline', icon: '📉', goal: 25, unit: '%', progress: s => Math.round(s.bestReduction * 100) },
+  { id: 'first_free_day', label: 'First nicotine-free day', icon: '🌱', goal: 1, unit: 'day', progress: s => s.freeDays },
+  { id: 'under_target_30', label: '30 days under target', icon: '🏆', goal: 30, unit: 'days', progress: s => s.longestUnderTarget },
+  { id: 'reduction_50', label: '50% below baseline', icon: '✂️', goal: 50, unit: '%', progress: s => Math.round(s.bestReduction * 100) },
+  { id: 'free_7', label: '7 nicotine-free days in a row', icon: '🌿', goal: 7, unit: 'days', progress: s => s.longestFree },
+  { id: 'free_30', label: '30 nicotine-free days in a row', icon: '🌳', goal: 30, unit: 'days', progress: s => s.longestFree },
+];
+
+export interface MilestoneProgress extends Milestone {
+  current: number; // progress so far, capped at the goal
+  reached: boolean;
+}
+
+export const getMilestoneProgress = (stats: StreakStats): MilestoneProgress[] => MILESTONES.map(m => {
+  const current = Math.min(m.goal, Math.max(0, m.progress(stats)));
+  return { ...m, current, reached: current >= m.goal };
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import {
+  commitHistory,
+  createHistory,
+  getRedoLabel,
+  getUndoLabel,
+  rebaseHistory,
+  redoHistory,
+  undoHistory
+} from './history';
+
+const add = (n: number) => (prev: number[]) => [...prev, n];
+
+describe('undo history', () => {
+  const history = commitHistory(commitHistory(createHistory<number[]>([]), 'Added 1', add(1)), 'Added 2', add(2));
+
+  it('undoes and redoes committed changes in order', () => {
+    expect(history.present).toEqual([1, 2]);
+    expect(getUndoLabel(history)).toBe('Added 2');
+
+    const undone = undoHistory(history);
+    expect(undone.present).toEqual([1]);
+    expect(getUndoLabel(undone)).toBe('Added 1');
+    expect(getRedoLabel(undone)).toBe('Added 2');
+
+    expect(redoHistory(undone)).toEqual(history);
+  });
+
+  it('leaves the history alone when there is nothing to undo or redo', () => {
+    const empty = createHistory<number[]>([]);
+    expect(undoHistory(empty)).toBe(empty);
+    expect(redoHistory(history)).toBe(history);
+    expect(getUndoLabel(empty)).toBeUndefined();
+  });
+
+  it('drops undone changes once something new is committed', () => {
+    const branched = commitHistory(undoHistory(history), 'Added 3', add(3));
+    expect(branched.present).toEqual([1, 3]);
+    expect(getRedoLabel(branched)).toBeUndefined();
+  });
+
+  it('keeps only the most recent steps', () => {
+    const limited = [1, 2, 3].reduce((h, n) => commitHistory(h, `Added ${n}`, add(n), 2), createHistory<number[]>([]));
+    expect(limited.past.map(entry => entry.label)).toEqual(['Added 2', 'Added 3']);
+  });
+
+  it('applies changes from elsewhere to every snapshot', () => {
+    const rebased = rebaseHistory(undoHistory(history), add(9));
+    expect(rebased.present).toEqual([1, 9]);
+    expect(undoHistory(rebased).present).toEqual([9]);
+    expect(redoHistory(rebased).present).toEqual([1, 2, 9]);
+  });
+});
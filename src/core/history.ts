@@ -0,0 +1,53 @@
+export interface HistoryEntry<T> {
+  state: T;
+  label: string;
+}
+
+// Past and future snapshots of a value, so committed changes can be undone and redone.
+export interface UndoHistory<T> {
+  past: HistoryEntry<T>[];
+  present: T;
+  future: HistoryEntry<T>[];
+}
+
+export const UNDO_LIMIT = 50;
+
+export const createHistory = <T>(present: T): UndoHistory<T> => ({ past: [], present, future: [] });
+
+// Records `label` as undoable, keeping at most `limit` steps, and drops anything that was undone.
+export const commitHistory = <T>(history: UndoHistory<T>, label: string, updater: (prev: T) => T, limit = UNDO_LIMIT): UndoHistory<T> => ({
+  past: [...history.past, { state: history.present, label }].slice(-limit),
+  present: updater(history.present),
+  future: [],
+});
+
+export const undoHistory = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  const last = history.past[history.past.length - 1];
+  if (!last) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: last.state,
+    future: [{ state: history.present, label: last.label }, ...history.future],
+  };
+};
+
+export const redoHistory = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  const next = history.future[0];
+  if (!next) return history;
+  return {
+    past: [...history.past, { state: history.present, label: next.label }],
+    present: next.state,
+    future: history.future.slice(1),
+  };
+};
+
+// Applies a change made elsewhere to every snapshot, so undoing a local action doesn't revert it.
+export const rebaseHistory = <T>(history: UndoHistory<T>, updater: (prev: T) => T): UndoHistory<T> => ({
+  past: history.past.map(entry => ({ ...entry, state: updater(entry.state) })),
+  present: updater(history.present),
+  future: history.future.map(entry => ({ ...entry, state: updater(entry.state) })),
+});
+
+export const getUndoLabel = <T>(history: UndoHistory<T>): string | undefined => history.past[history.past.length - 1]?.label;
+
+export const getRedoLabel = <T>(history: UndoHistory<T>): string | undefined => history.future[0]?.label;
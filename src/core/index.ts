@@ -0,0 +1,19 @@
+// nictrack-core: the app's domain logic as plain functions over the types in ../types.
+// Nothing here touches React, storage or the DOM, so it can be reused and unit tested on its own.
+export * from './aggregation';
+export * from './analytics';
+export * from './backup';
+export * from './constants';
+export * from './conversion';
+export * from './cravings';
+export * from './dependence';
+export * from './goals';
+export * from './history';
+export * from './logs';
+export * from './pharmacokinetics';
+export * from './records';
+export * from './report';
+export * from './spending';
+export * from './sync';
+export * from './taper';
+export * from './validation';
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { at, day, makeLog } from './fixtures';
+import {
+  createDoseEvent,
+  formatUtcOffset,
+  fromLocalTime,
+  getLogDate,
+  getLogInputError,
+  getLogLocalTime,
+  getLogicalDay,
+  getUtcOffset,
+  isSameEntry,
+  mergeLogs
+} from './logs';
+import type { Product } from '../types';
+
+const pouch: Product = { id: 'p1', name: 'Pouch 6mg', deliveryType: 'pouches', strength: 6, absorptionRate: 0.5 };
+const vape: Product = {
+  id: 'v1',
+  name: 'Pod vape',
+  deliveryType: 'puffs',
+  strength: 0.1,
+  absorptionRate: 0.5,
+  vapeProfile: { nicotineType: 'salt', mgPerMl: 20, podMl: 2, puffsPerMl: 150 },
+};
+
+describe('getLogDate', () => {
+  it('uses the local calendar date', () => {
+    expect(getLogDate(makeLog('2026-03-14', 1, { timestamp: at('2026-03-14', '23:30').toISOString() }))).toBe('2026-03-14');
+    expect(getLogDate(makeLog('2026-03-14', 1, { timestamp: at('2026-03-15', '00:30').toISOString() }))).toBe('2026-03-15');
+  });
+
+  it('counts entries before the day start towards the previous day', () => {
+    const lateNight = makeLog('2026-03-14', 1, { timestamp: at('2026-03-15', '03:30').toISOString() });
+    const morning = makeLog('2026-03-14', 1, { timestamp: at('2026-03-15', '04:00').toISOString() });
+    expect(getLogDate(lateNight, 4)).toBe('2026-03-14');
+    expect(getLogDate(morning, 4)).toBe('2026-03-15');
+  });
+
+  it("uses the offset the entry was logged with rather than this device's", () => {
+    // 23:30 in New York (UTC-5) is 04:30 UTC the next day.
+    const log = makeLog('2026-03-14', 1, { timestamp: '2026-01-15T04:30:00.000Z', utcOffset: -300 });
+    expect(getLogDate(log)).toBe('2026-01-14');
+    expect(getLogDate({ ...log, utcOffset: 540 })).toBe('2026-01-15');
+  });
+});
+
+describe('getLogLocalTime', () => {
+  it('reads the time where the entry was logged', () => {
+    const log = makeLog('2026-01-14', 1, { timestamp: '2026-01-15T04:30:00.000Z', utcOffset: -300 });
+    expect(getLogLocalTime(log)).toEqual({ date: '2026-01-14', time: '23:30', utcOffset: -300 });
+    expect(getLogLocalTime({ ...log, utcOffset: 330 })).toEqual({ date: '2026-01-15', time: '10:00', utcOffset: 330 });
+  });
+
+  it("uses this device's offset for older entries", () => {
+    const log = makeLog('2026-01-14', 1, { timestamp: at('2026-01-14', '23:30').toISOString() });
+    expect(getLogLocalTime(log)).toEqual({ date: '2026-01-14', time: '23:30', utcOffset: getUtcOffset(at('2026-01-14', '23:30')) });
+  });
+});
+
+describe('fromLocalTime', () => {
+  it('is the inverse of getLogLocalTime', () => {
+    expect(fromLocalTime('2026-01-14', '23:30', -300).toISOString()).toBe('2026-01-15T04:30:00.000Z');
+    expect(fromLocalTime('2026-01-15', '10:00', 330).toISOString()).toBe('2026-01-15T04:30:00.000Z');
+  });
+
+  it('is an invalid date for missing input', () => {
+    expect(isNaN(fromLocalTime('2026-01-15', '', 0).getTime())).toBe(true);
+  });
+});
+
+describe('formatUtcOffset', () => {
+  it('shows hours and minutes east of UTC', () => {
+    expect(formatUtcOffset(0)).toBe('UTC+00:00');
+    expect(formatUtcOffset(330)).toBe('UTC+05:30');
+    expect(formatUtcOffset(-210)).toBe('UTC-03:30');
+  });
+});
+
+describe('getLogicalDay', () => {
+  it('is the local midnight of the day a time counts towards', () => {
+    expect(getLogicalDay(at('2026-03-15', '03:59'), 4)).toEqual(day('2026-03-14'));
+    expect(getLogicalDay(at('2026-03-15', '04:00'), 4)).toEqual(day('2026-03-15'));
+    expect(getLogicalDay(at('2026-03-15', '00:30'))).toEqual(day('2026-03-15'));
+  });
+});
+
+describe('createDoseEvent', () => {
+  it('pins the product values at the time of logging', () => {
+    const timestamp = at('2026-02-01', '08:15');
+    const event = createDoseEvent(pouch, 2, { timestamp, modelName: 'Literature median' });
+    expect(event).toMatchObject({
+      timestamp: timestamp.toISOString(),
+      unitType: 'pouches',
+      quantity: 2,
+      strength: 6,
+      absorptionRate: 0.5,
+      productId: 'p1',
+      productName: 'Pouch 6mg',
+      absorptionModel: 'Literature median',
+    });
+    expect(event.vapeMeasure).toBeUndefined();
+  });
+
+  it("records this device's UTC offset", () => {
+    const timestamp = at('2026-07-01', '08:15');
+    expect(createDoseEvent(pouch, 1, { timestamp }).utcOffset).toBe(getUtcOffset(timestamp));
+  });
+
+  it('converts pods from a vape profile', () => {
+    const event = createDoseEvent(vape, 1, { measure: 'pod' });
+    expect(event).toMatchObject({ strength: 40, vapeMeasure: 'pod', puffsPerUnit: 300 });
+  });
+
+  it('logs plain puffs with the product strength', () => {
+    const event = createDoseEvent(vape, 10);
+    expect(event.strength).toBe(0.1);
+    expect(event.vapeMeasure).toBeUndefined();
+  });
+
+  it('gives each entry its own id', () => {
+    expect(createDoseEvent(pouch, 1).id).not.toBe(createDoseEvent(pouch, 1).id);
+  });
+});
+
+describe('mergeLogs', () => {
+  const existing = makeLog('2026-01-01', 3, { id: 'a' });
+
+  it('adds entries that are not already present', () => {
+    const added = makeLog('2026-01-02', 3, { id: 'b' });
+    expect(mergeLogs([existing], [added])).toEqual([existing, added]);
+  });
+
+  it('skips entries with the same id', () => {
+    expect(mergeLogs([existing], [{ ...existing, quantity: 5 }])).toEqual([existing]);
+  });
+
+  it('skips re-imported CSV rows with fresh ids', () => {
+    const reimported = { ...existing, id: 'fresh' };
+    expect(isSameEntry(existing, reimported)).toBe(true);
+    expect(mergeLogs([existing], [reimported])).toEqual([existing]);
+  });
+});
+
+describe('getLogInputError', () => {
+  const now = at('2026-01-10', '12:00');
+
+  it('accepts a positive amount in the past', () => {
+    expect(getLogInputError(1, at('2026-01-09'), now)).toBeNull();
+  });
+
+  it('rejects zero, negative and missing amounts', () => {
+    expect(getLogInputError(0, at('2026-01-09'), now)).toMatch(/greater than zero/);
+    expect(getLogInputError(-1, at('2026-01-09'), now)).toMatch(/greater than zero/);
+    expect(getLogInputError(NaN, at('2026-01-09'), now)).toMatch(/greater than zero/);
+  });
+
+  it('rejects invalid and future times', () => {
+    expect(getLogInputError(1, new Date('nope'), now)).toMatch(/valid date/);
+    expect(getLogInputError(1, at('2026-01-10', '12:01'), now)).toMatch(/future/);
+  });
+});
@@ -0,0 +1,79 @@
+import { startOfDay, subHours } from 'date-fns';
+import { getVapeMeasure } from './conversion';
+import type { DoseEvent, Product, VapeMeasure } from '../types';
+
+// Minutes east of UTC on this device at `date`, as stored in DoseEvent.utcOffset.
+export const getUtcOffset = (date: Date) => -date.getTimezoneOffset() || 0;
+
+// The day (YYYY-MM-DD) an entry counts towards: its calendar date where it was logged, with
+// entries before `dayStartHour` going to the previous day. Entries without a stored offset
+// use this device's offset at the time of the entry.
+export const getLogDate = (log: DoseEvent, dayStartHour = 0) => {
+  const time = new Date(log.timestamp);
+  const offset = log.utcOffset ?? getUtcOffset(time);
+  return new Date(time.getTime() + (offset - dayStartHour * 60) * 60000).toISOString().slice(0, 10);
+};
+
+// An entry's wall-clock date (YYYY-MM-DD) and time (HH:mm) where it was logged, with that
+// place's offset. Entries without a stored offset use this device's offset at the time.
+export const getLogLocalTime = (log: DoseEvent) => {
+  const time = new Date(log.timestamp);
+  const utcOffset = log.utcOffset ?? getUtcOffset(time);
+  const local = new Date(time.getTime() + utcOffset * 60000).toISOString();
+  return { date: local.slice(0, 10), time: local.slice(11, 16), utcOffset };
+};
+
+// The moment a wall-clock date and time happened at `utcOffset`; the inverse of getLogLocalTime.
+export const fromLocalTime = (date: string, time: string, utcOffset: number) =>
+  new Date(new Date(`${date}T${time}:00Z`).getTime() - utcOffset * 60000);
+
+// e.g. "UTC+05:30" or "UTC-03:00".
+export const formatUtcOffset = (utcOffset: number) => {
+  const minutes = Math.abs(utcOffset);
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `UTC${utcOffset < 0 ? '-' : '+'}${hh}:${mm}`;
+};
+
+// Local midnight of the day `date` counts towards when days start at `dayStartHour`.
+export const getLogicalDay = (date: Date, dayStartHour = 0) => startOfDay(subHours(date, dayStartHour));
+
+// A new entry for `quantity` of `product`, pinning the product's current values.
+export const createDoseEvent = (
+  product: Product,
+  quantity: number,
+  { timestamp = new Date(), measure = 'puff', modelName }: { timestamp?: Date, measure?: VapeMeasure, modelName?: string } = {}
+): DoseEvent => {
+  const vape = product.vapeProfile && measure !== 'puff' ? getVapeMeasure(product.vapeProfile, measure) : null;
+  return {
+    id: crypto.randomUUID(),
+    timestamp: timestamp.toISOString(),
+    utcOffset: getUtcOffset(timestamp),
+    unitType: product.deliveryType,
+    quantity,
+    strength: vape ? vape.strength : product.strength,
+    absorptionRate: product.absorptionRate,
+    productId: product.id,
+    productName: product.name,
+    absorptionModel: modelName,
+    vapeMeasure: vape ? measure : undefined,
+    puffsPerUnit: vape ? vape.puffs : undefined,
+  };
+};
+
+// CSV rows get fresh ids, so also treat identical time/unit/quantity as the same entry.
+export const isSameEntry = (a: DoseEvent, b: DoseEvent) => a.id === b.id
+  || (a.timestamp === b.timestamp && a.unitType === b.unitType && a.quantity === b.quantity);
+
+// `existing` plus the entries of `incoming` it doesn't already have.
+export const mergeLogs = (existing: DoseEvent[], incoming: DoseEvent[]) => [
+  ...existing,
+  ...incoming.filter(log => !existing.some(e => isSameEntry(e, log))),
+];
+
+export const getLogInputError = (quantity: number, timestamp: Date, now = new Date()) => {
+  if (isNaN(quantity) || quantity <= 0) return 'Enter an amount greater than zero.';
+  if (isNaN(timestamp.getTime())) return 'Enter a valid date and time.';
+  if (timestamp > now) return "Entries can't be in the future.";
+  return null;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { at, makeLog } from './fixtures';
+import { NICOTINE_HALF_LIFE_HOURS, getPlasmaCurve, getRemainingMg } from './pharmacokinetics';
+
+describe('getRemainingMg', () => {
+  const cig = makeLog('2026-01-01', 2, { unitType: 'cigs' });
+
+  it('is zero before the dose', () => {
+    expect(getRemainingMg(cig, 0)).toBe(0);
+    expect(getRemainingMg(cig, -1)).toBe(0);
+  });
+
+  it('halves every half-life after absorption', () => {
+    const afterAbsorption = getRemainingMg(cig, 1);
+    expect(getRemainingMg(cig, 1 + NICOTINE_HALF_LIFE_HOURS)).toBeCloseTo(afterAbsorption / 2);
+  });
+
+  it('absorbs patches slowly over the day', () => {
+    const patch = makeLog('2026-01-01', 2, { unitType: 'patch' });
+    expect(getRemainingMg(patch, 1)).toBeLessThan(getRemainingMg(cig, 1));
+  });
+
+  it('spreads finished pods over the cadence window', () => {
+    const pod = makeLog('2026-01-01', 2, { unitType: 'puffs', vapeMeasure: 'pod' });
+    const puffs = makeLog('2026-01-01', 2, { unitType: 'puffs' });
+    expect(getRemainingMg(pod, 1)).toBeLessThan(getRemainingMg(puffs, 1));
+  });
+});
+
+describe('getPlasmaCurve', () => {
+  it('samples the window at the given step', () => {
+    const points = getPlasmaCurve([], at('2026-01-02', '12:00'), 2, 30);
+    expect(points).toHaveLength(5);
+    expect(points.every(p => p.level === 0)).toBe(true);
+    expect(points[0].time).toBe('10:00');
+  });
+
+  it('rises after a dose', () => {
+    const log = makeLog('2026-01-02', 2, { unitType: 'cigs', timestamp: at('2026-01-02', '11:00').toISOString() });
+    const points = getPlasmaCurve([log], at('2026-01-02', '12:00'), 2, 60);
+    expect(points.map(p => p.level)).toEqual([0, 0, expect.any(Number)]);
+    expect(points[2].level).toBeGreaterThan(0);
+  });
+});
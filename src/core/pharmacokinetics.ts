@@ -0,0 +1,47 @@
+import { addHours, format } from 'date-fns';
+import { getAbsorbedMg } from './conversion';
+import type { DoseEvent, PreferredUnit } from '../types';
+
+// One-compartment pharmacokinetic model: zero-order absorption over a per-method window,
+// first-order elimination. Volume of distribution is ~2.6 L/kg for a 70 kg adult.
+export const NICOTINE_HALF_LIFE_HOURS = 2;
+export const NICOTINE_VOLUME_OF_DISTRIBUTION_L = 180;
+export const ABSORPTION_HOURS: Record<PreferredUnit, number> = {
+  cigs: 0.1,
+  puffs: 0.1,
+  vape_cadence: 16,
+  pouches: 0.5,
+  lozenge: 0.5,
+  patch: 24,
+};
+
+// Nicotine (mg) still in the body from a single dose, `hours` after it was taken.
+export const getRemainingMg = (log: DoseEvent, hours: number) => {
+  if (hours <= 0) return 0;
+  const k = Math.LN2 / NICOTINE_HALF_LIFE_HOURS;
+  // A finished pod or refill was vaped over the day rather than in one go.
+  const duration = log.vapeMeasure && log.vapeMeasure !== 'puff' ? ABSORPTION_HOURS.vape_cadence : ABSORPTION_HOURS[log.unitType];
+  const rate = getAbsorbedMg(log) / duration;
+  if (hours <= duration) return (rate / k) * (1 - Math.exp(-k * hours));
+  return (rate / k) * (1 - Math.exp(-k * duration)) * Math.exp(-k * (hours - duration));
+};
+
+// Estimated plasma concentration (ng/mL) sampled every `stepMinutes` over the `hours` before `end`.
+export const getPlasmaCurve = (logs: DoseEvent[], end: Date, hours: number, stepMinutes = 15) => {
+  const start = addHours(end, -hours);
+  // Doses from well before the window still contribute through slow absorption and decay.
+  const relevant = logs.filter(l => {
+    const t = new Date(l.timestamp).getTime();
+    return t <= end.getTime() && t >= addHours(start, -48).getTime();
+  });
+
+  const points = [];
+  for (let t = start.getTime(); t <= end.getTime(); t += stepMinutes * 60 * 1000) {
+    const mg = relevant.reduce((sum, l) => sum + getRemainingMg(l, (t - new Date(l.timestamp).getTime()) / 3600000), 0);
+    points.push({
+      time: format(new Date(t), hours > 24 ? 'EEE HH:mm' : 'HH:mm'),
+      level: Number(((mg / NICOTINE_VOLUME_OF_DISTRIBUTION_L) * 1000).toFixed(1)),
+    });
+  }
+  return points;
+};
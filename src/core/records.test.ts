@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { applyRecordChange, diffRecords, excludeRecordChange } from './records';
+
+const a = { id: 'a', value: 1 };
+const b = { id: 'b', value: 2 };
+
+describe('diffRecords', () => {
+  const persisted = new Map([[a.id, a], [b.id, b]]);
+
+  it('finds records that were added, replaced or removed', () => {
+    const c = { id: 'c', value: 3 };
+    const editedA = { ...a, value: 4 };
+    expect(diffRecords(persisted, [editedA, c])).toEqual({ puts: [editedA, c], deletes: ['b'] });
+  });
+
+  it('returns null when nothing changed', () => {
+    expect(diffRecords(persisted, [b, a])).toBeNull();
+  });
+});
+
+describe('applyRecordChange', () => {
+  it('replaces, removes and appends records in place', () => {
+    const editedB = { ...b, value: 5 };
+    const c = { id: 'c', value: 3 };
+    expect(applyRecordChange([a, b], { puts: [c, editedB], deletes: ['a'] })).toEqual([editedB, c]);
+  });
+});
+
+describe('excludeRecordChange', () => {
+  it('leaves out records that were already applied', () => {
+    const change = { puts: [a, b], deletes: ['c', 'd'] };
+    expect(excludeRecordChange(change, { puts: new Set([a]), deletes: new Set(['d']) })).toEqual({ puts: [b], deletes: ['c'] });
+    expect(excludeRecordChange(change, { puts: new Set([a, b]), deletes: new Set(['c', 'd']) })).toBeNull();
+  });
+
+  it('compares records by reference', () => {
+    expect(excludeRecordChange({ puts: [a], deletes: [] }, { puts: new Set([{ ...a }]), deletes: new Set() })).toEqual({ puts: [a], deletes: [] });
+  });
+});
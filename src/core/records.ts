@@ -0,0 +1,30 @@
+// The records written or removed by one change, as persisted and broadcast to other tabs.
+export interface RecordChange<T> {
+  puts: T[];
+  deletes: string[];
+}
+
+// Records in `next` that differ (by reference) from what was last persisted, and ids that are gone.
+export const diffRecords = <T extends { id: string }>(persisted: Map<string, T>, next: T[]): RecordChange<T> | null => {
+  const nextIds = new Set(next.map(r => r.id));
+  const puts = next.filter(r => persisted.get(r.id) !== r);
+  const deletes = [...persisted.keys()].filter(id => !nextIds.has(id));
+  return puts.length || deletes.length ? { puts, deletes } : null;
+};
+
+export const applyRecordChange = <T extends { id: string }>(records: T[], change: RecordChange<T>): T[] => {
+  const replaced = new Map(change.puts.map(r => [r.id, r]));
+  const deleted = new Set(change.deletes);
+  const kept = records
+    .filter(r => !deleted.has(r.id))
+    .map(r => replaced.get(r.id) || r);
+  const existing = new Set(records.map(r => r.id));
+  return [...kept, ...change.puts.filter(r => !existing.has(r.id))];
+};
+
+// The part of `change` that isn't in `applied`, e.g. edits made here rather than received from a sync.
+export const excludeRecordChange = <T>(change: RecordChange<T>, applied: { puts: Set<T>, deletes: Set<string> }): RecordChange<T> | null => {
+  const puts = change.puts.filter(r => !applied.puts.has(r));
+  const deletes = change.deletes.filter(id => !applied.deletes.has(id));
+  return puts.length || deletes.length ? { puts, deletes } : null;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ABSORPTION_PRESETS } from './constants';
+import { day, makeLog, makePlan } from './fixtures';
+import { buildProgressReport, getReportSummary } from './report';
+
+const model = ABSORPTION_PRESETS[0];
+const logs = [
+  makeLog('2026-01-01', 12),
+  makeLog('2026-01-02', 6, { unitType: 'cigs' }),
+  makeLog('2026-01-02', 2),
+  makeLog('2026-01-03', 4),
+  makeLog('2026-01-09', 50),
+];
+
+describe('buildProgressReport', () => {
+  const report = buildProgressReport(logs, day('2026-01-01'), day('2026-01-04'), {
+    profileName: 'Me',
+    model,
+    taperPlan: null,
+    generatedAt: new Date('2026-01-05T00:00:00Z'),
+  });
+
+  it('summarises only the chosen range', () => {
+    expect(report.days.map(d => d.mg)).toEqual([12, 8, 4, 0]);
+    expect(report.totalMg).toBe(24);
+    expect(report.averageMg).toBe(6);
+    expect(report.totalCigarettes).toBe(12);
+    expect(report.peak?.date).toBe('2026-01-01');
+    expect(report.lowest?.date).toBe('2026-01-04');
+  });
+
+  it('breaks absorbed mg down by delivery type', () => {
+    expect(report.productMix).toEqual([
+      { label: 'Pouch', entries: 3, mg: 18, share: 0.75 },
+      { label: 'Cigarette', entries: 1, mg: 6, share: 0.25 },
+    ]);
+  });
+
+  it('reports the trend direction', () => {
+    expect(report.trend).toBe('decreasing');
+    expect(report.weeklyChangeMg).toBeCloseTo(-28);
+  });
+
+  it('leaves out the taper plan without one', () => {
+    expect(report.daysOnTarget).toBeNull();
+    expect(getReportSummary(report).map(([label]) => label)).not.toContain('Taper plan');
+  });
+
+  it('counts days on target with a plan', () => {
+    const withPlan = buildProgressReport(logs, day('2026-01-01'), day('2026-01-04'), {
+      profileName: 'Me',
+      model,
+      taperPlan: makePlan({ startDate: '2026-01-02', startMg: 7, targetMg: 7 }),
+    });
+    expect(withPlan.daysWithTarget).toBe(3);
+    expect(withPlan.daysOnTarget).toBe(2);
+    expect(getReportSummary(withPlan)).toContainEqual(['Taper plan', '2 of 3 days at or under target']);
+  });
+
+  it('leaves out a plan that starts after the range', () => {
+    const beforePlan = buildProgressReport(logs, day('2026-01-01'), day('2026-01-04'), {
+      profileName: 'Me',
+      model,
+      taperPlan: makePlan({ startDate: '2026-02-01', targetDate: '2026-03-01' }),
+    });
+    expect(beforePlan.daysWithTarget).toBe(0);
+    expect(beforePlan.daysOnTarget).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { eachDayOfInterval, format } from 'date-fns';
+import { getDailyTotals, getDaySummary } from './aggregation';
+import type { DaySummary } from './aggregation';
+import { getTrendDirection, linearTrend } from './analytics';
+import { DELIVERY_LABELS } from './constants';
+import { getAbsorbedMg } from './conversion';
+import { getLogDate } from './logs';
+import type { AbsorptionModel, DoseEvent, PreferredUnit, TaperPlan } from '../types';
+
+export interface ReportProductMix {
+  label: string;
+  entries: number;
+  mg: number;
+  share: number; // 0-1 of the range's absorbed mg
+}
+
+// Everything the printable page and the PDF show, computed once for the chosen range.
+export interface ProgressReport {
+  profileName: string;
+  start: string; // YYYY-MM-DD
+  end: string;
+  generatedAt: string; // ISO 8601
+  modelName: string;
+  mgPerCig: number;
+  days: DaySummary[];
+  totalMg: number;
+  averageMg: number;
+  peak: DaySummary | null;
+  lowest: DaySummary | null;
+  totalCigarettes: number;
+  productMix: ReportProductMix[];
+  weeklyChangeMg: number; // slope of the daily series, per week
+  trend: 'decreasing' | 'stable' | 'increasing';
+  daysOnTarget: number | null; // days at or under the taper allowance; null without a plan in range
+  daysWithTarget: number;
+}
+
+export const REPORT_DISCLAIMER =
+  'Figures are estimates, not measurements. NicTrack multiplies what the user logged by fixed per-product ' +
+  'nicotine content and absorption assumptions (the model named above); real absorption varies with device, ' +
+  'technique, and individual metabolism, and no blood levels were measured. Cigarette equivalents divide ' +
+  'absorbed mg by the model\'s mg per cigarette. Days with nothing logged count as 0 mg.';
+
+const TREND_LABELS: Record<ProgressReport['trend'], string> = {
+  decreasing: 'Decreasing',
+  stable: 'Stable',
+  increasing: 'Increasing',
+};
+
+export const formatReportDate = (date: string) => format(new Date(date + 'T00:00:00'), 'MMM d, yyyy');
+
+export const getReportTitle = (report: ProgressReport) =>
+  `Nicotine intake report: ${formatReportDate(report.start)} to ${formatReportDate(report.end)}`;
+
+export const getReportSummary = (report: ProgressReport): [string, string][] => [
+  ['Average', `${report.averageMg.toFixed(1)} mg/day (~${(report.averageMg / report.mgPerCig).toFixed(1)} cigarettes)`],
+  ['Peak day', report.peak ? `${report.peak.mg} mg on ${formatReportDate(report.peak.date)}` : 'n/a'],
+  ['Lowest day', report.lowest ? `${report.lowest.mg} mg on ${formatReportDate(report.lowest.date)}` : 'n/a'],
+  ['Total', `${report.totalMg.toFixed(1)} mg (~${report.totalCigarettes.toFixed(0)} cigarettes)`],
+  ['Trend', `${TREND_LABELS[report.trend]} (${report.weeklyChangeMg > 0 ? '+' : ''}${report.weeklyChangeMg.toFixed(1)} mg/day per week)`],
+  ...(report.daysOnTarget !== null
+    ? [['Taper plan', `${report.daysOnTarget} of ${report.daysWithTarget} days at or under target`] as [string, string]]
+    : []),
+];
+
+export const buildProgressReport = (
+  logs: DoseEvent[],
+  start: Date,
+  end: Date,
+  { profileName, model, taperPlan, dayStartHour = 0, generatedAt = new Date() }: {
+    profileName: string,
+    model: AbsorptionModel,
+    taperPlan: TaperPlan | null,
+    dayStartHour?: number,
+    generatedAt?: Date,
+  }
+): ProgressReport => {
+  const totals = getDailyTotals(logs, dayStartHour);
+  const days = eachDayOfInterval({ start, end }).map(day => getDaySummary(day, totals, taperPlan, model));
+  const totalMg = days.reduce((sum, d) => sum + d.mg, 0);
+  const averageMg = days.length > 0 ? totalMg / days.length : 0;
+  const trend = linearTrend(days.map(d => d.mg));
+  // Days before the taper plan starts have no target and count neither way.
+  const daysWithTarget = days.filter(d => d.target !== undefined).length;
+  const daysOnTarget = days.filter(d => d.target !== undefined && d.mg <= d.target).length;
+
+  const startDate = format(start, 'yyyy-MM-dd');
+  const endDate = format(end, 'yyyy-MM-dd');
+  const mix = new Map<PreferredUnit, { entries: number, mg: number }>();
+  logs.filter(l => getLogDate(l, dayStartHour) >= startDate && getLogDate(l, dayStartHour) <= endDate).forEach(log => {
+    const current = mix.get(log.unitType) || { entries: 0, mg: 0 };
+    mix.set(log.unitType, { entries: current.entries + 1, mg: current.mg + getAbsorbedMg(log) });
+  });
+
+  return {
+    profileName,
+    start: startDate,
+    end: endDate,
+    generatedAt: generatedAt.toISOString(),
+    modelName: model.name,
+    mgPerCig: model.mgPerCig,
+    days,
+    totalMg,
+    averageMg,
+    peak: days.reduce<DaySummary | null>((peak, d) => !peak || d.mg > peak.mg ? d : peak, null),
+    lowest: days.reduce<DaySummary | null>((lowest, d) => !lowest || d.mg < lowest.mg ? d : lowest, null),
+    totalCigarettes: totalMg / model.mgPerCig,
+    productMix: [...mix.entries()]
+      .map(([unitType, { entries, mg }]) => ({ label: DELIVERY_LABELS[unitType], entries, mg, share: totalMg > 0 ? mg / totalMg : 0 }))
+      .sort((a, b) => b.mg - a.mg),
+    weeklyChangeMg: trend.slope * 7,
+    trend: getTrendDirection(trend, averageMg),
+    daysOnTarget: daysWithTarget > 0 ? daysOnTarget : null,
+    daysWithTarget,
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { at, makeLog } from './fixtures';
+import { getDailySpend, getMoneySaved, getUnitPrice } from './spending';
+import type { Product, Purchase, SpendingSettings } from '../types';
+
+const products: Product[] = [{ id: 'p1', name: 'Pouch', deliveryType: 'pouches', strength: 6, absorptionRate: 0.5 }];
+const purchases: Purchase[] = [
+  { id: 'a', productId: 'p1', date: '2026-01-01', price: 10, unitsPerPack: 20 },
+  { id: 'b', productId: 'p1', date: '2026-01-10', price: 12, unitsPerPack: 20 },
+];
+
+describe('getUnitPrice', () => {
+  it('uses the latest purchase on or before the log', () => {
+    expect(getUnitPrice(makeLog('2026-01-05', 3, { productId: 'p1' }), purchases, products)).toBe(0.5);
+    expect(getUnitPrice(makeLog('2026-01-10', 3, { productId: 'p1' }), purchases, products)).toBe(0.6);
+  });
+
+  it('falls back to the earliest purchase for older history', () => {
+    expect(getUnitPrice(makeLog('2025-12-01', 3, { productId: 'p1' }), purchases, products)).toBe(0.5);
+  });
+
+  it('matches legacy entries by delivery type', () => {
+    expect(getUnitPrice(makeLog('2026-01-05', 3), purchases, products)).toBe(0.5);
+    expect(getUnitPrice(makeLog('2026-01-05', 3, { unitType: 'cigs' }), purchases, products)).toBeNull();
+  });
+});
+
+describe('getDailySpend', () => {
+  it('sums spend per day and counts unpriced entries', () => {
+    const logs = [
+      makeLog('2026-01-05', 3, { productId: 'p1', quantity: 2 }),
+      makeLog('2026-01-05', 3, { productId: 'other' }),
+    ];
+    const { spend, unpriced } = getDailySpend(logs, purchases, products);
+    expect(spend).toEqual(new Map([['2026-01-05', 1]]));
+    expect(unpriced).toBe(1);
+  });
+
+  it('converts pods to puffs for vape purchases', () => {
+    const vapePurchase: Purchase = { id: 'v', productId: 'v1', date: '2026-01-01', price: 15, unitsPerPack: 300 };
+    const log = makeLog('2026-01-05', 1, { productId: 'v1', unitType: 'puffs', vapeMeasure: 'pod', puffsPerUnit: 300 });
+    expect(getDailySpend([log], [vapePurchase], []).spend.get('2026-01-05')).toBe(15);
+  });
+});
+
+describe('getMoneySaved', () => {
+  const spend = new Map([
+    ['2026-01-01', 10], ['2026-01-02', 10], ['2026-01-03', 10], ['2026-01-04', 10],
+    ['2026-01-05', 10], ['2026-01-06', 10], ['2026-01-07', 10],
+    ['2026-01-08', 4], ['2026-01-09', 4],
+  ]);
+  const settings: SpendingSettings = { currency: 'USD', purchases, baselineStart: null, baselineEnd: null };
+
+  it('compares against the first tracked week by default', () => {
+    expect(getMoneySaved(spend, settings, '2026-01-01', at('2026-01-09'))).toMatchObject({ baselineDaily: 10, saved: 12 });
+  });
+
+  it('uses a configured baseline period', () => {
+    const custom = { ...settings, baselineStart: '2026-01-01', baselineEnd: '2026-01-02' };
+    expect(getMoneySaved(spend, custom, '2026-01-01', at('2026-01-03'))?.saved).toBe(0);
+  });
+
+  it('is null until the baseline period is over', () => {
+    expect(getMoneySaved(spend, settings, '2026-01-01', at('2026-01-07'))).toBeNull();
+    expect(getMoneySaved(new Map(), settings, undefined, at('2026-01-07'))).toBeNull();
+  });
+});
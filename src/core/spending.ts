@@ -0,0 +1,70 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { sumDays } from './aggregation';
+import { getLogDate, getLogicalDay } from './logs';
+import type { DoseEvent, Product, Purchase, SpendingSettings } from '../types';
+
+// Price of one logged unit: the latest purchase of the product on or before the log's day,
+// or its earliest purchase for history logged before anything was recorded.
+export const getUnitPrice = (log: DoseEvent, purchases: Purchase[], products: Product[], dayStartHour = 0) => {
+  // Entries from before the product library only know their delivery type.
+  const matching = purchases
+    .filter(p => log.productId
+      ? p.productId === log.productId
+      : products.some(product => product.id === p.productId && product.deliveryType === log.unitType))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (matching.length === 0) return null;
+  const date = getLogDate(log, dayStartHour);
+  const purchase = [...matching].reverse().find(p => p.date <= date) || matching[0];
+  return purchase.price / purchase.unitsPerPack;
+};
+
+// Spend per day, keyed like `getDailyTotals` by the day each log counts towards.
+export const getDailySpend = (logs: DoseEvent[], purchases: Purchase[], products: Product[], dayStartHour = 0) => {
+  const spend = new Map<string, number>();
+  let unpriced = 0;
+  logs.forEach(log => {
+    const unitPrice = getUnitPrice(log, purchases, products, dayStartHour);
+    if (unitPrice === null) {
+      unpriced++;
+      return;
+    }
+    const date = getLogDate(log, dayStartHour);
+    // Vape purchases are priced per puff, so finished pods and refills are converted.
+    spend.set(date, (spend.get(date) || 0) + log.quantity * (log.puffsPerUnit ?? 1) * unitPrice);
+  });
+  return { spend, unpriced };
+};
+
+// Money saved from the day after the baseline period through today, against the baseline's daily average.
+export const getMoneySaved = (
+  spend: Map<string, number>,
+  spending: SpendingSettings,
+  firstLogDate: string | undefined,
+  today: Date,
+  dayStartHour = 0
+) => {
+  const baselineStart = spending.baselineStart || firstLogDate;
+  if (!baselineStart) return null;
+  const start = new Date(baselineStart + 'T00:00:00');
+  const end = spending.baselineEnd ? new Date(spending.baselineEnd + 'T00:00:00') : addDays(start, 6);
+  const since = addDays(end, 1);
+  const day = getLogicalDay(today, dayStartHour);
+  if (since > day) return null;
+
+  const baselineDays = differenceInCalendarDays(end, start) + 1;
+  const baselineDaily = sumDays(spend, start, end) / baselineDays;
+  const days = differenceInCalendarDays(day, since) + 1;
+  return {
+    baselineDaily,
+    since,
+    saved: baselineDaily * days - sumDays(spend, since, day),
+  };
+};
+
+export const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { isNewerWrite, shouldApplyChange } from './sync';
+import type { SyncChange, SyncRecord } from './sync';
+
+const current: SyncRecord<number> = {
+  id: 'a',
+  rev: 3,
+  seq: 10,
+  updatedAt: '2026-01-01T12:00:00.000Z',
+  deviceId: 'phone',
+  deleted: false,
+  data: 1,
+};
+
+const change = (overrides: Partial<SyncChange<number>> = {}): SyncChange<number> => ({
+  id: 'a',
+  baseRev: 3,
+  updatedAt: '2026-01-01T11:00:00.000Z',
+  deleted: false,
+  data: 2,
+  ...overrides,
+});
+
+describe('isNewerWrite', () => {
+  it('prefers the later edit', () => {
+    expect(isNewerWrite({ updatedAt: '2026-01-02T00:00:00.000Z', deviceId: 'a' }, current)).toBe(true);
+    expect(isNewerWrite({ updatedAt: '2025-12-31T00:00:00.000Z', deviceId: 'z' }, current)).toBe(false);
+  });
+
+  it('settles ties by device id', () => {
+    expect(isNewerWrite({ updatedAt: current.updatedAt, deviceId: 'tablet' }, current)).toBe(true);
+    expect(isNewerWrite({ updatedAt: current.updatedAt, deviceId: 'laptop' }, current)).toBe(false);
+  });
+});
+
+describe('shouldApplyChange', () => {
+  it('accepts new records and updates to the current revision', () => {
+    expect(shouldApplyChange(undefined, change({ baseRev: 0 }), 'laptop')).toBe(true);
+    expect(shouldApplyChange(current, change(), 'laptop')).toBe(true);
+  });
+
+  it('keeps the later of two concurrent edits', () => {
+    expect(shouldApplyChange(current, change({ baseRev: 2 }), 'laptop')).toBe(false);
+    expect(shouldApplyChange(current, change({ baseRev: 2, updatedAt: '2026-01-01T13:00:00.000Z' }), 'laptop')).toBe(true);
+  });
+
+  it('treats first uploads of a record the server already has as concurrent', () => {
+    expect(shouldApplyChange(current, change({ baseRev: 0, updatedAt: '1970-01-01T00:00:00.000Z' }), 'laptop')).toBe(false);
+  });
+});
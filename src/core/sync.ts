@@ -0,0 +1,48 @@
+// The protocol spoken between the app and the optional sync server (see server/). The server
+// stores records without looking inside them; the app validates what it pulls like an import.
+
+// A record as the server stores it. Deletes are kept as tombstones so other devices learn of them.
+export interface SyncRecord<T> {
+  id: string;
+  rev: number; // bumped by the server on every accepted write
+  seq: number; // the account's change counter when last written; devices pull changes after the last seq they saw
+  updatedAt: string; // ISO 8601, when the writing device made the change
+  deviceId: string; // the device that made the change
+  deleted: boolean;
+  data: T | null; // null once deleted
+}
+
+// A write from a device. `baseRev` is the revision the device last saw, 0 for a record it has never synced.
+export interface SyncChange<T> {
+  id: string;
+  baseRev: number;
+  updatedAt: string; // ISO 8601
+  deleted: boolean;
+  data: T | null;
+}
+
+// 'rejected' means a newer concurrent edit won; `record` is then the server's copy for the device to adopt.
+export interface SyncResult<T> {
+  status: 'applied' | 'rejected';
+  record: SyncRecord<T>;
+}
+
+export interface SyncDevice {
+  id: string;
+  firstSeenAt: string; // ISO 8601
+  lastSeenAt: string; // ISO 8601
+  lastPulledSeq: number;
+  changes: number; // writes accepted from this device
+}
+
+export const SYNC_CONFIG_ID = 'config';
+
+// Orders two writes to the same record: the later edit wins, and the device id settles exact ties
+// so the server and every device agree. Relies on device clocks being roughly right.
+export const isNewerWrite = (a: { updatedAt: string, deviceId: string }, b: { updatedAt: string, deviceId: string }) =>
+  a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : a.deviceId > b.deviceId;
+
+// A change based on the current revision is a plain update. One based on an older revision raced
+// another device's edit, and is only kept if it was made later.
+export const shouldApplyChange = (current: SyncRecord<unknown> | undefined, change: SyncChange<unknown>, deviceId: string) =>
+  !current || current.rev === change.baseRev || isNewerWrite({ updatedAt: change.updatedAt, deviceId }, current);
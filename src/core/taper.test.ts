@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { day, makePlan } from './fixtures';
+import { getTaperAllowance } from './taper';
+
+describe('getTaperAllowance', () => {
+  it('holds the start and target doses outside the plan', () => {
+    const plan = makePlan();
+    expect(getTaperAllowance(plan, day('2025-12-25'))).toBe(20);
+    expect(getTaperAllowance(plan, day('2026-01-01'))).toBe(20);
+    expect(getTaperAllowance(plan, day('2026-01-11'))).toBe(10);
+    expect(getTaperAllowance(plan, day('2026-02-01'))).toBe(10);
+  });
+
+  it('reduces linearly', () => {
+    const plan = makePlan({ curve: 'linear' });
+    expect(getTaperAllowance(plan, day('2026-01-06'))).toBeCloseTo(15);
+  });
+
+  it('reduces by a percentage each full week, down to the target', () => {
+    const plan = makePlan({ curve: 'percentage', weeklyReductionPercent: 10, targetDate: '2026-03-01', targetMg: 15 });
+    expect(getTaperAllowance(plan, day('2026-01-07'))).toBe(20);
+    expect(getTaperAllowance(plan, day('2026-01-08'))).toBeCloseTo(18);
+    expect(getTaperAllowance(plan, day('2026-01-15'))).toBeCloseTo(16.2);
+    expect(getTaperAllowance(plan, day('2026-01-22'))).toBe(15);
+  });
+
+  it('drops in equal steps', () => {
+    const plan = makePlan({ curve: 'step', stepDays: 5 });
+    expect(getTaperAllowance(plan, day('2026-01-05'))).toBe(20);
+    expect(getTaperAllowance(plan, day('2026-01-06'))).toBe(15);
+  });
+});
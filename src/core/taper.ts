@@ -0,0 +1,25 @@
+import { differenceInCalendarDays } from 'date-fns';
+import type { TaperPlan } from '../types';
+
+// Daily mg allowance the taper plan gives for `day`.
+export const getTaperAllowance = (plan: TaperPlan, day: Date) => {
+  const start = new Date(plan.startDate + 'T00:00:00');
+  const totalDays = differenceInCalendarDays(new Date(plan.targetDate + 'T00:00:00'), start);
+  const elapsed = differenceInCalendarDays(day, start);
+  if (elapsed <= 0) return plan.startMg;
+  if (elapsed >= totalDays) return plan.targetMg;
+
+  switch (plan.curve) {
+    case 'linear':
+      return plan.startMg + (plan.targetMg - plan.startMg) * (elapsed / totalDays);
+    case 'percentage':
+      const weeks = Math.floor(elapsed / 7);
+      return Math.max(plan.targetMg, plan.startMg * Math.pow(1 - plan.weeklyReductionPercent / 100, weeks));
+    case 'step':
+      const steps = Math.ceil(totalDays / plan.stepDays);
+      const stepsTaken = Math.floor(elapsed / plan.stepDays);
+      return plan.startMg - (plan.startMg - plan.targetMg) * (stepsTaken / steps);
+    default:
+      return plan.startMg;
+  }
+};
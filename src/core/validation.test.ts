@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DAILY_LIMIT_MG, DEFAULT_ABSORPTION_MODEL } from './constants';
+import { makeLog, makePlan } from './fixtures';
+import { validateDoseEvent, validateSpending, validateTaperPlan, validateUserConfig } from './validation';
+
+describe('validateDoseEvent', () => {
+  it('keeps a valid entry', () => {
+    const log = makeLog('2026-01-01', 4, { utcOffset: 60 });
+    expect(validateDoseEvent(log)).toEqual(log);
+  });
+
+  it('gives entries without an id a new one', () => {
+    const { id: _, ...log } = makeLog('2026-01-01', 4);
+    const validated = validateDoseEvent(log);
+    expect(typeof validated !== 'string' && validated.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('drops optional fields that are out of range', () => {
+    const validated = validateDoseEvent({ ...makeLog('2026-01-01', 4), utcOffset: 24 * 60, vapeMeasure: 'tank' });
+    expect(validated).toMatchObject({ utcOffset: undefined, vapeMeasure: undefined });
+  });
+
+  it('says why an entry was rejected', () => {
+    expect(validateDoseEvent(null)).toBe('not an object');
+    expect(validateDoseEvent({ ...makeLog('2026-01-01', 4), timestamp: 'yesterday' })).toBe('invalid timestamp');
+    expect(validateDoseEvent({ ...makeLog('2026-01-01', 4), quantity: -1 })).toBe('invalid quantity');
+  });
+});
+
+describe('validateUserConfig', () => {
+  const config = { source: 'pouches', unit: 'pouches', products: [] };
+
+  it('fills in settings added after the config was saved', () => {
+    expect(validateUserConfig(config)).toEqual({
+      ...config,
+      absorptionModel: DEFAULT_ABSORPTION_MODEL,
+      dailyLimitMg: DAILY_LIMIT_MG,
+      dayStartHour: 0,
+    });
+  });
+
+  it('drops invalid products but keeps the rest', () => {
+    const products = [{ id: 'p1', name: 'Zyn', deliveryType: 'pouches', strength: 6, absorptionRate: 0.5 }, { id: 'p2' }];
+    expect(validateUserConfig({ ...config, products })).toMatchObject({ products: [products[0]] });
+  });
+
+  it('rejects an invalid day start', () => {
+    expect(validateUserConfig({ ...config, dayStartHour: 24 })).toBe('invalid day start hour');
+  });
+});
+
+describe('validateTaperPlan', () => {
+  it('rejects a target date before the start', () => {
+    expect(validateTaperPlan(makePlan())).toEqual(makePlan());
+    expect(validateTaperPlan(makePlan({ targetDate: '2025-12-01' }))).toBe('target date is not after start date');
+  });
+});
+
+describe('validateSpending', () => {
+  it('needs both ends of a baseline period', () => {
+    const spending = { currency: 'USD', purchases: [], baselineStart: '2026-01-01', baselineEnd: null };
+    expect(validateSpending(spending)).toBe('invalid baseline period');
+    expect(validateSpending({ ...spending, baselineEnd: '2026-01-07' })).toEqual({ ...spending, baselineEnd: '2026-01-07' });
+  });
+});
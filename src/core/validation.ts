@@ -0,0 +1,258 @@
+import {
+  CRAVING_TRIGGERS,
+  DAILY_LIMIT_MG,
+  DAY_START_HOUR,
+  DEFAULT_ABSORPTION_MODEL,
+  NICOTINE_SOURCES,
+  NICOTINE_TYPES,
+  UNIT_TYPES
+} from './constants';
+import type {
+  AbsorptionModel,
+  Craving,
+  DependenceAnswers,
+  DoseEvent,
+  Product,
+  Purchase,
+  QuizResult,
+  SpendingSettings,
+  TaperCurve,
+  TaperPlan,
+  TimeToFirstUse,
+  UserConfig,
+  VapeMeasure,
+  VapeProfile
+} from '../types';
+
+// Data read back from storage, backup files or the sync server can't be trusted to match ../types.
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNonNegative = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value >= 0;
+
+const isPositive = (value: unknown): value is number =>
+  isNonNegative(value) && value > 0;
+
+// Absorption rates and similar shares, 0 to 1 inclusive.
+const isFraction = (value: unknown): value is number =>
+  isNonNegative(value) && value <= 1;
+
+// Plain objects whose every value passes `isValue`, e.g. maps from ids to revisions.
+export const isRecordOf = <T>(value: unknown, isValue: (v: unknown) => v is T): value is Record<string, T> =>
+  isRecord(value) && Object.values(value).every(isValue);
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  (options as readonly unknown[]).includes(value);
+
+export const isTimeString = (value: unknown): value is string =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const isInteger = (value: unknown): value is number =>
+  Number.isInteger(value);
+
+const isHour = (value: unknown): value is number =>
+  isInteger(value) && value >= 0 && value <= 23;
+
+// UTC offsets in use run from -12:00 to +14:00.
+const isUtcOffset = (value: unknown): value is number =>
+  isInteger(value) && value >= -12 * 60 && value <= 14 * 60;
+
+export const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value + 'T00:00:00').getTime());
+
+// Each validator returns the cleaned value, or a description of why it was rejected.
+export const validateVapeProfile = (raw: unknown): VapeProfile | string => {
+  if (!isRecord(raw)) return 'not an object';
+  const { nicotineType, mgPerMl, podMl, puffsPerMl } = raw;
+  if (!isOneOf(NICOTINE_TYPES, nicotineType)) return `unknown nicotine type "${nicotineType}"`;
+  if (!isPositive(mgPerMl)) return 'invalid mgPerMl';
+  if (!isPositive(podMl)) return 'invalid podMl';
+  if (!isPositive(puffsPerMl)) return 'invalid puffsPerMl';
+  return { nicotineType, mgPerMl, podMl, puffsPerMl };
+};
+
+export const validateProduct = (raw: unknown): Product | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.id !== 'string' || !raw.id) return 'missing id';
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return 'missing name';
+  if (!isOneOf(UNIT_TYPES, raw.deliveryType)) return `unknown delivery type "${raw.deliveryType}"`;
+  if (!isNonNegative(raw.strength)) return 'invalid strength';
+  if (!isFraction(raw.absorptionRate)) return 'invalid absorption rate';
+  const vapeProfile = raw.vapeProfile === undefined ? undefined : validateVapeProfile(raw.vapeProfile);
+  if (typeof vapeProfile === 'string') return `invalid vape profile (${vapeProfile})`;
+  return {
+    id: raw.id,
+    name: raw.name,
+    deliveryType: raw.deliveryType,
+    strength: raw.strength,
+    absorptionRate: raw.absorptionRate,
+    vapeProfile,
+  };
+};
+
+export const validateAbsorptionModel = (raw: unknown): AbsorptionModel | string => {
+  if (!isRecord(raw)) return 'not an object';
+  const { name, mgPerCig, mgPerPouch3mg, mgPerPouch6mg, mgPerPuff, puffsPerDevice, lozengeAbsorptionRate, patchAbsorptionRate } = raw;
+  if (typeof name !== 'string' || !name.trim()) return 'missing name';
+  if (!isPositive(mgPerCig)) return 'invalid mgPerCig';
+  if (!isPositive(mgPerPouch3mg)) return 'invalid mgPerPouch3mg';
+  if (!isPositive(mgPerPouch6mg)) return 'invalid mgPerPouch6mg';
+  if (!isPositive(mgPerPuff)) return 'invalid mgPerPuff';
+  if (!isPositive(puffsPerDevice)) return 'invalid puffsPerDevice';
+  if (!isFraction(lozengeAbsorptionRate)) return 'invalid lozengeAbsorptionRate';
+  if (!isFraction(patchAbsorptionRate)) return 'invalid patchAbsorptionRate';
+  return {
+    name,
+    mgPerCig,
+    mgPerPouch3mg,
+    mgPerPouch6mg,
+    mgPerPuff,
+    puffsPerDevice,
+    lozengeAbsorptionRate,
+    patchAbsorptionRate,
+  };
+};
+
+// Invalid products are dropped rather than failing the whole config. Settings saved before
+// the absorption model was configurable get the defaults every estimate used until then.
+export const validateUserConfig = (raw: unknown): UserConfig | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (!isOneOf(NICOTINE_SOURCES, raw.source)) return `unknown source "${raw.source}"`;
+  if (!isOneOf(UNIT_TYPES, raw.unit)) return `unknown unit "${raw.unit}"`;
+  if (!Array.isArray(raw.products)) return 'missing product library';
+  const absorptionModel = raw.absorptionModel === undefined ? DEFAULT_ABSORPTION_MODEL : validateAbsorptionModel(raw.absorptionModel);
+  if (typeof absorptionModel === 'string') return `invalid absorption model (${absorptionModel})`;
+  if (raw.dailyLimitMg !== undefined && !isPositive(raw.dailyLimitMg)) return 'invalid daily limit';
+  if (raw.dayStartHour !== undefined && !isHour(raw.dayStartHour)) return 'invalid day start hour';
+  return {
+    source: raw.source,
+    unit: raw.unit,
+    products: raw.products.map(validateProduct).filter((p): p is Product => typeof p !== 'string'),
+    absorptionModel,
+    dailyLimitMg: raw.dailyLimitMg ?? DAILY_LIMIT_MG,
+    dayStartHour: raw.dayStartHour ?? DAY_START_HOUR,
+  };
+};
+
+export const validateDoseEvent = (raw: unknown): DoseEvent | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.timestamp !== 'string' || isNaN(new Date(raw.timestamp).getTime())) return 'invalid timestamp';
+  if (!isOneOf(UNIT_TYPES, raw.unitType)) return `unknown unit "${raw.unitType}"`;
+  if (!isNonNegative(raw.quantity)) return 'invalid quantity';
+  if (!isNonNegative(raw.strength)) return 'invalid strength';
+  if (!isNonNegative(raw.absorptionRate)) return 'invalid absorptionRate';
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    timestamp: new Date(raw.timestamp).toISOString(),
+    utcOffset: isUtcOffset(raw.utcOffset) ? raw.utcOffset : undefined,
+    unitType: raw.unitType,
+    quantity: raw.quantity,
+    strength: raw.strength,
+    absorptionRate: raw.absorptionRate,
+    productId: typeof raw.productId === 'string' ? raw.productId : undefined,
+    productName: typeof raw.productName === 'string' ? raw.productName : undefined,
+    absorptionModel: typeof raw.absorptionModel === 'string' ? raw.absorptionModel : undefined,
+    vapeMeasure: isOneOf<VapeMeasure>(['puff', 'pod', 'ml'], raw.vapeMeasure) ? raw.vapeMeasure : undefined,
+    puffsPerUnit: isNonNegative(raw.puffsPerUnit) ? raw.puffsPerUnit : undefined,
+  };
+};
+
+export const validateCraving = (raw: unknown): Craving | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.id !== 'string' || !raw.id) return 'missing id';
+  if (typeof raw.timestamp !== 'string' || isNaN(new Date(raw.timestamp).getTime())) return 'invalid timestamp';
+  if (!isInteger(raw.intensity) || raw.intensity < 1 || raw.intensity > 5) return 'invalid intensity';
+  if (!isOneOf(CRAVING_TRIGGERS, raw.trigger)) return `unknown trigger "${raw.trigger}"`;
+  if (raw.outcome !== 'used' && raw.outcome !== 'resisted') return `unknown outcome "${raw.outcome}"`;
+  return {
+    id: raw.id,
+    timestamp: new Date(raw.timestamp).toISOString(),
+    intensity: raw.intensity,
+    trigger: raw.trigger,
+    customTrigger: typeof raw.customTrigger === 'string' && raw.customTrigger ? raw.customTrigger : undefined,
+    note: typeof raw.note === 'string' && raw.note ? raw.note : undefined,
+    outcome: raw.outcome,
+  };
+};
+
+export const validateTaperPlan = (raw: unknown): TaperPlan | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (!isDateString(raw.startDate) || !isDateString(raw.targetDate)) return 'invalid dates';
+  if (raw.targetDate <= raw.startDate) return 'target date is not after start date';
+  if (!isNonNegative(raw.startMg) || !isNonNegative(raw.targetMg)) return 'invalid mg values';
+  if (!isOneOf<TaperCurve>(['linear', 'percentage', 'step'], raw.curve)) return `unknown curve "${raw.curve}"`;
+  if (!isNonNegative(raw.weeklyReductionPercent) || raw.weeklyReductionPercent >= 100) return 'invalid weekly reduction';
+  if (!isInteger(raw.stepDays) || raw.stepDays < 1) return 'invalid step length';
+  return {
+    startDate: raw.startDate,
+    startMg: raw.startMg,
+    targetDate: raw.targetDate,
+    targetMg: raw.targetMg,
+    curve: raw.curve,
+    weeklyReductionPercent: raw.weeklyReductionPercent,
+    stepDays: raw.stepDays,
+  };
+};
+
+export const validatePurchase = (raw: unknown): Purchase | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.id !== 'string' || !raw.id) return 'missing id';
+  if (typeof raw.productId !== 'string' || !raw.productId) return 'missing product';
+  if (!isDateString(raw.date)) return 'invalid date';
+  if (!isNonNegative(raw.price)) return 'invalid price';
+  if (!isPositive(raw.unitsPerPack)) return 'invalid units per pack';
+  return {
+    id: raw.id,
+    productId: raw.productId,
+    date: raw.date,
+    price: raw.price,
+    unitsPerPack: raw.unitsPerPack,
+  };
+};
+
+// Invalid purchases are dropped rather than failing the whole record.
+export const validateSpending = (raw: unknown): SpendingSettings | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.currency !== 'string' || !/^[A-Z]{3}$/.test(raw.currency)) return `unknown currency "${raw.currency}"`;
+  if (!Array.isArray(raw.purchases)) return 'missing purchases';
+  const { baselineStart, baselineEnd } = raw;
+  const hasBaseline = isDateString(baselineStart) && isDateString(baselineEnd);
+  if (hasBaseline ? baselineEnd < baselineStart : baselineStart !== null || baselineEnd !== null) {
+    return 'invalid baseline period';
+  }
+  return {
+    currency: raw.currency,
+    purchases: raw.purchases.map(validatePurchase).filter((p): p is Purchase => typeof p !== 'string'),
+    baselineStart: hasBaseline ? baselineStart : null,
+    baselineEnd: hasBaseline ? baselineEnd : null,
+  };
+};
+
+export const validateDependenceAnswers = (raw: unknown): DependenceAnswers | string => {
+  if (!isRecord(raw)) return 'not an object';
+  const { timeToFirstUse, dailyQuantity, hardToRefrain, hateToGiveUpFirst, moreInMorning, useWhenIll } = raw;
+  if (!isOneOf<TimeToFirstUse>(['within5', 'within30', 'within60', 'after60'], timeToFirstUse)) return `unknown time to first use "${timeToFirstUse}"`;
+  if (!isNonNegative(dailyQuantity)) return 'invalid daily quantity';
+  if (typeof hardToRefrain !== 'boolean') return 'invalid hardToRefrain';
+  if (typeof hateToGiveUpFirst !== 'boolean') return 'invalid hateToGiveUpFirst';
+  if (typeof moreInMorning !== 'boolean') return 'invalid moreInMorning';
+  if (typeof useWhenIll !== 'boolean') return 'invalid useWhenIll';
+  return { timeToFirstUse, dailyQuantity, hardToRefrain, hateToGiveUpFirst, moreInMorning, useWhenIll };
+};
+
+export const validateQuizResult = (raw: unknown): QuizResult | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.completedAt !== 'string' || isNaN(new Date(raw.completedAt).getTime())) return 'invalid completion date';
+  const answers = validateDependenceAnswers(raw.answers);
+  if (typeof answers === 'string') return `invalid answers: ${answers}`;
+  if (!isInteger(raw.score) || raw.score < 0 || raw.score > 10) return 'invalid score';
+  if (!isNonNegative(raw.baselineMg)) return 'invalid baseline';
+  return {
+    completedAt: new Date(raw.completedAt).toISOString(),
+    answers,
+    score: raw.score,
+    baselineMg: raw.baselineMg,
+    baselineFromLogs: raw.baselineFromLogs === true,
+  };
+};
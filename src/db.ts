@@ -0,0 +1,160 @@
+import { validateCraving, validateDoseEvent } from './core';
+import type { RecordChange } from './core';
+import {
+  getProfileKey,
+  loadLocalCravings,
+  loadLocalLogs,
+  removeLocalLogs,
+  saveLocalCravings,
+  saveLocalLogs
+} from './storage';
+import type { Craving, DoseEvent } from './types';
+
+const DB_NAME = 'nictrack';
+const DB_VERSION = 2;
+const CHANNEL_NAME = 'nictrack-logs';
+
+export type RecordStore = 'logs' | 'cravings';
+
+interface ChangeMessage {
+  store: RecordStore;
+  change: RecordChange<unknown>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Set when IndexedDB can't be opened (e.g. some private browsing modes); records stay in localStorage.
+let localStorageFallback = false;
+
+// Created on first use, once the active profile is known; each profile has its own database and channel.
+let channel: BroadcastChannel | null | undefined;
+const getChannel = () => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(getProfileKey(CHANNEL_NAME)) : null;
+  }
+  return channel;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(getProfileKey(DB_NAME), DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (['logs', 'cravings'] as RecordStore[]).forEach(store => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let another tab upgrade or delete the database instead of blocking it.
+        db.onversionchange = () => db.close();
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const readAll = async <T>(store: RecordStore, validate: (raw: unknown) => T | string, issues: string[], label: string) => {
+  const db = await openDb();
+  const raw: unknown[] = await requestResult(db.transaction(store).objectStore(store).getAll());
+  const records = raw.map(validate).filter((r): r is T => typeof r !== 'string');
+  if (records.length < raw.length) {
+    const dropped = raw.length - records.length;
+    issues.push(`${dropped} unreadable ${label} ${dropped === 1 ? 'entry was' : 'entries were'} skipped.`);
+  }
+  return records;
+};
+
+// Reads all history, first moving anything still in localStorage into IndexedDB.
+export const loadLogs = async (issues: string[]): Promise<DoseEvent[]> => {
+  const local = loadLocalLogs(issues);
+  try {
+    const db = await openDb();
+    if (local) {
+      const tx = db.transaction('logs', 'readwrite');
+      local.forEach(log => tx.objectStore('logs').put(log));
+      await transactionDone(tx);
+      removeLocalLogs();
+    }
+    return await readAll('logs', validateDoseEvent, issues, 'history');
+  } catch (e) {
+    console.error('IndexedDB unavailable, keeping history in localStorage', e);
+    localStorageFallback = true;
+    return local || [];
+  }
+};
+
+export const loadCravings = async (issues: string[]): Promise<Craving[]> => {
+  try {
+    return await readAll('cravings', validateCraving, issues, 'craving');
+  } catch (e) {
+    console.error('IndexedDB unavailable, keeping cravings in localStorage', e);
+    localStorageFallback = true;
+    return loadLocalCravings(issues);
+  }
+};
+
+// `all` is only needed for the localStorage fallback, which can't write single records.
+export const writeRecordChange = async <T>(store: RecordStore, change: RecordChange<T>, all: T[]) => {
+  if (localStorageFallback) {
+    if (store === 'logs') saveLocalLogs(all as DoseEvent[]);
+    else saveLocalCravings(all as Craving[]);
+    return;
+  }
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  change.puts.forEach(record => objectStore.put(record));
+  change.deletes.forEach(id => objectStore.delete(id));
+  await transactionDone(tx);
+};
+
+export const broadcastRecordChange = <T>(store: RecordStore, change: RecordChange<T>) => {
+  const message: ChangeMessage = { store, change };
+  getChannel()?.postMessage(message);
+};
+
+// Calls `listener` with changes to `store` persisted by other open tabs. Returns an unsubscribe function.
+export const subscribeToRecordChanges = <T>(store: RecordStore, listener: (change: RecordChange<T>) => void) => {
+  const channel = getChannel();
+  if (!channel) return () => {};
+  const handleMessage = (e: MessageEvent<ChangeMessage>) => {
+    if (e.data.store === store) listener(e.data.change as RecordChange<T>);
+  };
+  channel.addEventListener('message', handleMessage);
+  return () => channel.removeEventListener('message', handleMessage);
+};
+
+// Deleting waits for every open connection to close, including this tab's own when the
+// profile is the active one.
+export const deleteProfileDatabase = async (profileId: string) => {
+  const name = getProfileKey(DB_NAME, profileId);
+  if (dbPromise && name === getProfileKey(DB_NAME)) {
+    const open = dbPromise;
+    dbPromise = null;
+    (await open.catch(() => null))?.close();
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Only a tab that can't close its connection (e.g. an older release) blocks; the
+    // database is still deleted once that tab closes.
+    request.onblocked = () => reject(new Error('Profile history is still open in another tab'));
+  });
+};
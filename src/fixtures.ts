@@ -0,0 +1,9 @@
+// Shared test helpers for modules that use browser APIs; tests run in Node.
+
+// Just enough of the Web Storage API for localStorage and sessionStorage.
+export class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
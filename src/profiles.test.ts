@@ -0,0 +1,66 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeLog } from './core/fixtures';
+import { loadLogs, writeRecordChange } from './db';
+import { MemoryStorage } from './fixtures';
+import { deleteProfile, getActiveProfile } from './profiles';
+import { STORAGE_KEYS, getProfileKey, loadProfiles, setActiveProfile } from './storage';
+import type { ProfileRegistry } from './types';
+
+const registry: ProfileRegistry = {
+  activeId: 'second',
+  profiles: [{ id: 'default', name: 'Me' }, { id: 'second', name: 'Partner' }],
+};
+
+const getDatabaseNames = async () => (await indexedDB.databases()).map(db => db.name);
+
+describe('getActiveProfile', () => {
+  it('falls back to the first profile when the active one is missing', () => {
+    expect(getActiveProfile(registry)).toEqual({ id: 'second', name: 'Partner' });
+    expect(getActiveProfile({ ...registry, activeId: 'deleted' })).toEqual({ id: 'default', name: 'Me' });
+  });
+});
+
+describe('deleteProfile', () => {
+  const reload = vi.fn();
+
+  beforeEach(async () => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    vi.stubGlobal('sessionStorage', new MemoryStorage());
+    vi.stubGlobal('window', { location: { reload } });
+    setActiveProfile('second');
+    localStorage.setItem(getProfileKey(STORAGE_KEYS.config), '{}');
+    // Opens (and caches) this tab's connection to the profile's database, as the app does on load.
+    await loadLogs([]);
+    await writeRecordChange('logs', { puts: [makeLog('2026-01-01', 4)], deletes: [] }, []);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    reload.mockClear();
+  });
+
+  it('deletes the active profile and switches to another', async () => {
+    expect(await getDatabaseNames()).toContain('nictrack:second');
+    await deleteProfile(registry, 'second');
+    expect(await getDatabaseNames()).not.toContain('nictrack:second');
+    expect(localStorage.getItem(getProfileKey(STORAGE_KEYS.config, 'second'))).toBeNull();
+    expect(loadProfiles()).toEqual({ activeId: 'default', profiles: [{ id: 'default', name: 'Me' }] });
+    expect(reload).toHaveBeenCalledOnce();
+  });
+
+  it('still switches when another tab keeps the database open', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const otherTab = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open('nictrack:second');
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    await deleteProfile(registry, 'second');
+    expect(error).toHaveBeenCalledWith('Failed to delete profile history', expect.any(Error));
+    expect(loadProfiles().activeId).toBe('default');
+    expect(reload).toHaveBeenCalledOnce();
+    otherTab.close();
+  });
+});
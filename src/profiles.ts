@@ -0,0 +1,56 @@
+import { deleteProfileDatabase } from './db';
+import { removeProfileData, saveProfiles } from './storage';
+import type { Profile, ProfileRegistry } from './types';
+
+// Per tab, so closing the tab locks a PIN-protected profile again.
+const UNLOCKED_KEY = 'nic_unlocked_profile';
+
+export const hashPin = async (profileId: string, pin: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${profileId}:${pin}`));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyPin = async (profile: Profile, pin: string) =>
+  !profile.pinHash || profile.pinHash === await hashPin(profile.id, pin);
+
+export const isProfileUnlocked = (profile: Profile) =>
+  !profile.pinHash || sessionStorage.getItem(UNLOCKED_KEY) === profile.id;
+
+export const markProfileUnlocked = (profile: Profile) => {
+  sessionStorage.setItem(UNLOCKED_KEY, profile.id);
+};
+
+// The registry always has at least one profile (see loadProfiles); if the active id is stale, the first one stands in.
+export const getActiveProfile = (registry: ProfileRegistry): Profile =>
+  registry.profiles.find(p => p.id === registry.activeId) ?? registry.profiles[0];
+
+// Storage, IndexedDB and the sync channel are all bound to the profile at startup, so switching reloads.
+export const switchProfile = (registry: ProfileRegistry, profileId: string) => {
+  sessionStorage.removeItem(UNLOCKED_KEY);
+  saveProfiles({ ...registry, activeId: profileId });
+  window.location.reload();
+};
+
+// A new profile starts empty, so onboarding runs for it after the reload.
+export const createProfile = (registry: ProfileRegistry, name: string) => {
+  const profile: Profile = { id: crypto.randomUUID(), name };
+  switchProfile({ ...registry, profiles: [...registry.profiles, profile] }, profile.id);
+};
+
+export const updateProfile = (registry: ProfileRegistry, profile: Profile): ProfileRegistry => {
+  const updated = { ...registry, profiles: registry.profiles.map(p => p.id === profile.id ? profile : p) };
+  saveProfiles(updated);
+  return updated;
+};
+
+export const deleteProfile = async (registry: ProfileRegistry, profileId: string) => {
+  const remaining = registry.profiles.filter(p => p.id !== profileId);
+  if (remaining.length === 0) return;
+  removeProfileData(profileId);
+  try {
+    await deleteProfileDatabase(profileId);
+  } catch (e) {
+    console.error('Failed to delete profile history', e);
+  }
+  switchProfile({ ...registry, profiles: remaining }, remaining[0].id);
+};
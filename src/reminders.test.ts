@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { at } from './core/fixtures';
+import { MemoryStorage } from './fixtures';
+import { getDueReminders, markReminderFired } from './reminders';
+import { DEFAULT_REMINDERS, STORAGE_KEYS } from './storage';
+import type { ReminderSettings } from './types';
+
+const context = { hasPatch: false, todayMg: 0, todayTargetMg: 20 };
+
+describe('getDueReminders', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fires a timed reminder once a day, up to an hour late', () => {
+    const settings: ReminderSettings = { ...DEFAULT_REMINDERS, checkInEnabled: true, checkInTime: '21:00' };
+    expect(getDueReminders(settings, context, at('2026-01-01', '20:59'))).toEqual([]);
+    expect(getDueReminders(settings, context, at('2026-01-01', '21:30'))).toEqual(['checkIn']);
+    expect(getDueReminders(settings, context, at('2026-01-01', '22:01'))).toEqual([]);
+    markReminderFired('checkIn', at('2026-01-01', '21:30'));
+    expect(getDueReminders(settings, context, at('2026-01-01', '21:45'))).toEqual([]);
+    expect(getDueReminders(settings, context, at('2026-01-02', '21:00'))).toEqual(['checkIn']);
+  });
+
+  it('counts days from the configured day start', () => {
+    const settings: ReminderSettings = { ...DEFAULT_REMINDERS, checkInEnabled: true, checkInTime: '01:00' };
+    expect(getDueReminders(settings, context, at('2026-01-02', '01:10'), 4)).toEqual(['checkIn']);
+    markReminderFired('checkIn', at('2026-01-02', '01:10'), 4);
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.remindersFired)!)).toEqual({ checkIn: '2026-01-01' });
+    expect(getDueReminders(settings, context, at('2026-01-02', '01:30'), 4)).toEqual([]);
+    expect(getDueReminders(settings, context, at('2026-01-03', '01:10'), 4)).toEqual(['checkIn']);
+  });
+
+  it('catches up across midnight when the day starts later', () => {
+    const settings: ReminderSettings = { ...DEFAULT_REMINDERS, checkInEnabled: true, checkInTime: '23:30' };
+    expect(getDueReminders(settings, context, at('2026-01-02', '00:10'), 4)).toEqual(['checkIn']);
+    expect(getDueReminders(settings, context, at('2026-01-02', '00:10'))).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { format } from 'date-fns';
+import { getLogicalDay } from './core';
+import { loadRemindersFired, saveRemindersFired } from './storage';
+import type { ReminderSettings, ReminderType } from './types';
+
+// A timed reminder still fires if the app opens this long after its time, but not later.
+const CATCH_UP_MINUTES = 60;
+
+export interface ReminderContext {
+  hasPatch: boolean;
+  todayMg: number;
+  todayTargetMg: number;
+}
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Minutes from the start of the day (at `dayStartHour`) to a time of day.
+const getMinutesIntoDay = (hours: number, minutes: number, dayStartHour: number) =>
+  ((hours - dayStartHour + 24) % 24) * 60 + minutes;
+
+const isTimeDue = (time: string, now: Date, dayStartHour: number) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const elapsed = getMinutesIntoDay(now.getHours(), now.getMinutes(), dayStartHour) - getMinutesIntoDay(hours, minutes, dayStartHour);
+  return elapsed >= 0 && elapsed <= CATCH_UP_MINUTES;
+};
+
+// The day a reminder fires for, which starts at `dayStartHour` like the days entries count towards.
+const getReminderDay = (now: Date, dayStartHour: number) => format(getLogicalDay(now, dayStartHour), 'yyyy-MM-dd');
+
+// Reminders that should fire at `now` and haven't already fired today.
+export const getDueReminders = (settings: ReminderSettings, context: ReminderContext, now: Date, dayStartHour = 0): ReminderType[] => {
+  const fired = loadRemindersFired();
+  const today = getReminderDay(now, dayStartHour);
+  const due: ReminderType[] = [];
+  if (settings.checkInEnabled && isTimeDue(settings.checkInTime, now, dayStartHour)) due.push('checkIn');
+  if (settings.patchChangeEnabled && context.hasPatch && isTimeDue(settings.patchChangeTime, now, dayStartHour)) due.push('patchChange');
+  if (settings.nearLimitEnabled && context.todayTargetMg > 0
+    && context.todayMg >= context.todayTargetMg * (settings.nearLimitPercent / 100)) {
+    due.push('nearLimit');
+  }
+  return due.filter(type => fired[type] !== today);
+};
+
+export const markReminderFired = (type: ReminderType, now: Date, dayStartHour = 0) => {
+  saveRemindersFired({ ...loadRemindersFired(), [type]: getReminderDay(now, dayStartHour) });
+};
+
+// Goes through the service worker when there is one, as mobile browsers only allow that.
+export const showNotification = async (title: string, body: string, tag: string) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = { body, tag, icon: '/pwa-192x192.png', badge: '/pwa-192x192.png' };
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options);
+  }
+};
@@ -0,0 +1,99 @@
+import { format } from 'date-fns';
+import { REPORT_DISCLAIMER, formatReportDate, getReportSummary, getReportTitle } from './core';
+import type { ProgressReport } from './core';
+
+const PAGE_MARGIN = 48;
+const LINE_HEIGHT = 14;
+
+// Loaded on demand so jsPDF stays out of the main bundle.
+export const downloadReportPdf = async (report: ProgressReport) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+  const heading = (text: string) => {
+    ensureSpace(LINE_HEIGHT * 3);
+    y += LINE_HEIGHT / 2;
+    doc.setFont('helvetica', 'bold').setFontSize(12).text(text, PAGE_MARGIN, y);
+    y += LINE_HEIGHT * 1.2;
+    doc.setFont('helvetica', 'normal').setFontSize(10);
+  };
+  const row = (cells: string[], widths: number[]) => {
+    ensureSpace(LINE_HEIGHT);
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, i) => {
+      doc.text(cell, x, y);
+      x += widths[i];
+    });
+    y += LINE_HEIGHT;
+  };
+
+  doc.setFont('helvetica', 'bold').setFontSize(16).text(getReportTitle(report), PAGE_MARGIN, y);
+  y += LINE_HEIGHT * 1.5;
+  doc.setFont('helvetica', 'normal').setFontSize(10);
+  doc.text(`${report.profileName} - generated ${format(new Date(report.generatedAt), 'MMM d, yyyy HH:mm')} - model: ${report.modelName}`, PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+
+  heading('Summary');
+  getReportSummary(report).forEach(([label, value]) => row([label, value], [110, contentWidth - 110]));
+
+  // Daily bars, scaled to the peak; the dashed line is the taper target where there is one.
+  heading('Daily absorbed nicotine (mg)');
+  const chartHeight = 120;
+  ensureSpace(chartHeight + LINE_HEIGHT * 2);
+  const maxMg = Math.max(1, ...report.days.map(d => Math.max(d.mg, d.target || 0)));
+  const slot = contentWidth / Math.max(1, report.days.length);
+  doc.setDrawColor(200).line(PAGE_MARGIN, y + chartHeight, PAGE_MARGIN + contentWidth, y + chartHeight);
+  doc.setFillColor(59, 130, 246);
+  report.days.forEach((d, i) => {
+    const height = (d.mg / maxMg) * chartHeight;
+    if (height > 0) doc.rect(PAGE_MARGIN + i * slot + slot * 0.15, y + chartHeight - height, slot * 0.7, height, 'F');
+  });
+  doc.setDrawColor(245, 158, 11).setLineDashPattern([3, 3], 0);
+  report.days.forEach((d, i) => {
+    if (d.target === undefined) return;
+    const ty = y + chartHeight - (d.target / maxMg) * chartHeight;
+    doc.line(PAGE_MARGIN + i * slot, ty, PAGE_MARGIN + (i + 1) * slot, ty);
+  });
+  doc.setLineDashPattern([], 0).setDrawColor(0);
+  doc.setFontSize(8).text(`${maxMg.toFixed(1)} mg`, PAGE_MARGIN, y - 2);
+  y += chartHeight + LINE_HEIGHT;
+  doc.text(formatReportDate(report.start), PAGE_MARGIN, y);
+  doc.text(formatReportDate(report.end), PAGE_MARGIN + contentWidth, y, { align: 'right' });
+  doc.setFontSize(10);
+  y += LINE_HEIGHT;
+
+  heading('Product mix');
+  const mixWidths = [200, 80, 100, 100];
+  doc.setFont('helvetica', 'bold');
+  row(['Type', 'Entries', 'Absorbed', 'Share'], mixWidths);
+  doc.setFont('helvetica', 'normal');
+  report.productMix.forEach(p => row([p.label, String(p.entries), `${p.mg.toFixed(1)} mg`, `${(p.share * 100).toFixed(0)}%`], mixWidths));
+
+  heading('Daily detail');
+  const dayWidths = [140, 100, 120, 100];
+  doc.setFont('helvetica', 'bold');
+  row(['Date', 'Absorbed', 'Cigarette equiv.', 'Target'], dayWidths);
+  doc.setFont('helvetica', 'normal');
+  report.days.forEach(d => row([
+    formatReportDate(d.date),
+    `${d.mg} mg`,
+    String(d.cigarettes),
+    d.target !== undefined ? `${d.target} mg` : '-',
+  ], dayWidths));
+
+  heading('About these numbers');
+  const disclaimer: string[] = doc.splitTextToSize(REPORT_DISCLAIMER, contentWidth);
+  disclaimer.forEach(line => row([line], [contentWidth]));
+
+  doc.save(`nictrack-report-${report.start}-to-${report.end}.pdf`);
+};
@@ -0,0 +1,549 @@
+import {
+  ABSORBED_MG_PER_POUCH_3MG,
+  ABSORBED_MG_PER_POUCH_6MG,
+  ABSORBED_MG_PER_PUFF,
+  LOZENGE_ABSORPTION_RATE,
+  NICOTINE_MG_PER_CIG,
+  DAILY_LIMIT_MG,
+  DAY_START_HOUR,
+  DEFAULT_ABSORPTION_MODEL,
+  PATCH_ABSORPTION_RATE,
+  getCadenceStrength,
+  isDateString,
+  isNonNegative,
+  isRecord,
+  isRecordOf,
+  isTimeString,
+  validateCraving,
+  validateDoseEvent,
+  validateQuizResult,
+  validateSpending,
+  validateTaperPlan,
+  validateUserConfig
+} from './core';
+import type {
+  Craving,
+  DoseEvent,
+  NicotineSource,
+  PreferredUnit,
+  Product,
+  Profile,
+  ProfileRegistry,
+  QuizResult,
+  ReminderSettings,
+  ReminderType,
+  SpendingSettings,
+  SyncSettings,
+  SyncState,
+  TaperPlan,
+  UserConfig
+} from './types';
+
+export const STORAGE_KEYS = {
+  schemaVersion: 'nic_schema_version',
+  profiles: 'nic_profiles',
+  config: 'nic_config',
+  logs: 'nic_logs_v4',
+  taperPlan: 'nic_taper_plan',
+  cravings: 'nic_cravings', // only written when IndexedDB is unavailable
+  spending: 'nic_spending',
+  quiz: 'nic_quiz',
+  // Not part of backups, as notification permission and sync state are per device.
+  reminders: 'nic_reminders',
+  remindersFired: 'nic_reminders_fired',
+  sync: 'nic_sync',
+  syncState: 'nic_sync_state',
+};
+
+// Everything except the schema version and profile list belongs to one profile (see getProfileKey).
+const PROFILE_KEYS = [
+  STORAGE_KEYS.config,
+  STORAGE_KEYS.logs,
+  STORAGE_KEYS.taperPlan,
+  STORAGE_KEYS.cravings,
+  STORAGE_KEYS.spending,
+  STORAGE_KEYS.quiz,
+  STORAGE_KEYS.reminders,
+  STORAGE_KEYS.remindersFired,
+  STORAGE_KEYS.sync,
+  STORAGE_KEYS.syncState,
+];
+
+// The profile that existed before profiles did keeps the original, unsuffixed keys.
+export const DEFAULT_PROFILE_ID = 'default';
+
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+// Written by earlier releases; only migrations read them.
+const LEGACY_LOG_KEYS = {
+  v2: 'nic_logs_v2',
+  v3: 'nic_logs_v3',
+};
+
+// Before the product library, a single strength per delivery type lived on the config.
+interface LegacyUserConfig {
+  source: NicotineSource;
+  unit: PreferredUnit;
+  pouchStrength?: number;
+  daysPerVape?: number;
+  lozengeStrength?: number;
+  patchStrength?: number;
+}
+
+// v3 kept one aggregated row per day and unit; v2 rows lacked strength and absorptionRate.
+interface LegacyDailyLog {
+  date: string; // YYYY-MM-DD
+  unitType: PreferredUnit;
+  quantity: number;
+  strength: number;
+  absorptionRate: number;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (issues: string[]) => void;
+}
+
+export interface LoadedState {
+  config: UserConfig | null;
+  taperPlan: TaperPlan | null;
+  spending: SpendingSettings;
+  quiz: QuizResult | null;
+  reminders: ReminderSettings;
+  sync: SyncSettings;
+  issues: string[]; // what had to be repaired or discarded on load
+}
+
+// Moves an unusable value aside rather than deleting it, so it can still be recovered by hand.
+const quarantine = (key: string) => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return;
+  localStorage.setItem(`${key}_corrupt_${Date.now()}`, raw);
+  localStorage.removeItem(key);
+};
+
+const readJson = (key: string, issues: string[]): unknown => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    quarantine(key);
+    issues.push(`Saved data in "${key}" could not be read and was set aside.`);
+    return undefined;
+  }
+};
+
+// Product values implied by a pre-library config, used to migrate its logs and seed its products.
+const getLegacySnapshot = (unitType: PreferredUnit, config: LegacyUserConfig | null): Pick<DoseEvent, 'strength' | 'absorptionRate'> => {
+  switch (unitType) {
+    case 'cigs':
+      return { strength: NICOTINE_MG_PER_CIG, absorptionRate: 1 };
+    case 'pouches':
+      const pouchStrength = config?.pouchStrength || 6;
+      const perPouch = pouchStrength === 3 ? ABSORBED_MG_PER_POUCH_3MG : ABSORBED_MG_PER_POUCH_6MG;
+      return { strength: pouchStrength, absorptionRate: perPouch / pouchStrength };
+    case 'puffs':
+      return { strength: ABSORBED_MG_PER_PUFF, absorptionRate: 1 };
+    case 'vape_cadence':
+      return { strength: getCadenceStrength(config?.daysPerVape || 1, DEFAULT_ABSORPTION_MODEL), absorptionRate: 1 };
+    case 'lozenge':
+      return { strength: config?.lozengeStrength || 4.0, absorptionRate: LOZENGE_ABSORPTION_RATE };
+    case 'patch':
+      return { strength: config?.patchStrength || 21.0, absorptionRate: PATCH_ABSORPTION_RATE };
+    default:
+      return { strength: 0, absorptionRate: 0 };
+  }
+};
+
+// Mirrors the four Quick Add buttons that existed before the product library.
+const getLegacyProducts = (config: LegacyUserConfig): Product[] => {
+  const seeded: [string, PreferredUnit][] = [['Zyn', 'pouches'], ['Lozenge', 'lozenge'], ['Patch', 'patch'], ['Cigarette', 'cigs']];
+  if (config.source === 'vape') seeded.push(['Vape', config.unit === 'vape_cadence' ? 'vape_cadence' : 'puffs']);
+  return seeded.map(([name, deliveryType]) => ({
+    id: crypto.randomUUID(),
+    name,
+    deliveryType,
+    ...getLegacySnapshot(deliveryType, config),
+  }));
+};
+
+// Ordered oldest first. Each step checks for its own input so re-running one is harmless.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Pin v2 daily rows to the product strengths they were logged under',
+    migrate: (issues) => {
+      if (localStorage.getItem(LEGACY_LOG_KEYS.v3) !== null || localStorage.getItem(STORAGE_KEYS.logs) !== null) return;
+      const rows = readJson(LEGACY_LOG_KEYS.v2, issues);
+      if (rows === undefined) return;
+      if (!Array.isArray(rows)) {
+        quarantine(LEGACY_LOG_KEYS.v2);
+        issues.push('Your oldest history was in an unknown format and was set aside.');
+        return;
+      }
+      const config = readJson(STORAGE_KEYS.config, issues);
+      const legacyConfig = isRecord(config) ? config as unknown as LegacyUserConfig : null;
+      const pinned = rows
+        .filter(isRecord)
+        .map(row => ({ ...row, ...getLegacySnapshot(row.unitType as PreferredUnit, legacyConfig) }));
+      localStorage.setItem(LEGACY_LOG_KEYS.v3, JSON.stringify(pinned));
+      localStorage.removeItem(LEGACY_LOG_KEYS.v2);
+    },
+  },
+  {
+    version: 2,
+    description: 'Split aggregated daily rows into timestamped dose events',
+    migrate: (issues) => {
+      if (localStorage.getItem(STORAGE_KEYS.logs) !== null) return;
+      const rows = readJson(LEGACY_LOG_KEYS.v3, issues);
+      if (rows === undefined) return;
+      if (!Array.isArray(rows)) {
+        quarantine(LEGACY_LOG_KEYS.v3);
+        issues.push('Your older history was in an unknown format and was set aside.');
+        return;
+      }
+      // Aggregated rows have no time of day, so each becomes a single event at midday.
+      const events = (rows as LegacyDailyLog[])
+        .filter(row => isRecord(row) && isDateString(row.date))
+        .map(({ date, ...row }) => ({
+          ...row,
+          id: crypto.randomUUID(),
+          timestamp: new Date(date + 'T12:00:00').toISOString(),
+        }));
+      if (events.length < rows.length) {
+        const dropped = rows.length - events.length;
+        issues.push(`${dropped} older history ${dropped === 1 ? 'row had' : 'rows had'} no valid date and ${dropped === 1 ? 'was' : 'were'} skipped.`);
+      }
+      localStorage.setItem(STORAGE_KEYS.logs, JSON.stringify(events));
+      localStorage.removeItem(LEGACY_LOG_KEYS.v3);
+    },
+  },
+  {
+    version: 3,
+    description: 'Move per-type product strengths into a product library',
+    migrate: (issues) => {
+      const config = readJson(STORAGE_KEYS.config, issues);
+      if (!isRecord(config) || Array.isArray(config.products)) return;
+      const legacy = config as unknown as LegacyUserConfig;
+      const migrated: UserConfig = {
+        source: legacy.source,
+        unit: legacy.unit,
+        products: getLegacyProducts(legacy),
+        absorptionModel: DEFAULT_ABSORPTION_MODEL,
+        dailyLimitMg: DAILY_LIMIT_MG,
+        dayStartHour: DAY_START_HOUR,
+      };
+      localStorage.setItem(STORAGE_KEYS.config, JSON.stringify(migrated));
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Storage key (or IndexedDB name) for `key` in a profile, the active one by default.
+export const getProfileKey = (key: string, profileId = activeProfileId) =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+
+// Must be called before anything is loaded; switching profiles reloads the app.
+export const setActiveProfile = (profileId: string) => {
+  activeProfileId = profileId;
+};
+
+const runMigrations = (issues: string[]) => {
+  const stored = Number(localStorage.getItem(STORAGE_KEYS.schemaVersion));
+  const current = Number.isInteger(stored) ? stored : 0;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+    try {
+      migration.migrate(issues);
+    } catch (e) {
+      console.error(`Migration ${migration.version} failed`, e);
+      issues.push(`Upgrading saved data failed at step ${migration.version} (${migration.description}).`);
+    }
+    localStorage.setItem(STORAGE_KEYS.schemaVersion, String(migration.version));
+  }
+};
+
+// Validators for what stays on this device; anything backed up or synced is in core/validation.
+export const validateReminderSettings = (raw: unknown): ReminderSettings | string => {
+  if (!isRecord(raw)) return 'not an object';
+  const { checkInEnabled, checkInTime, patchChangeEnabled, patchChangeTime, nearLimitEnabled, nearLimitPercent } = raw;
+  if (typeof checkInEnabled !== 'boolean') return 'invalid checkInEnabled';
+  if (typeof patchChangeEnabled !== 'boolean') return 'invalid patchChangeEnabled';
+  if (typeof nearLimitEnabled !== 'boolean') return 'invalid nearLimitEnabled';
+  if (!isTimeString(checkInTime) || !isTimeString(patchChangeTime)) return 'invalid time';
+  if (!isNonNegative(nearLimitPercent) || nearLimitPercent < 1 || nearLimitPercent > 100) return 'invalid limit percentage';
+  return { checkInEnabled, checkInTime, patchChangeEnabled, patchChangeTime, nearLimitEnabled, nearLimitPercent };
+};
+
+export const validateSyncSettings = (raw: unknown): SyncSettings | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.enabled !== 'boolean') return 'invalid enabled flag';
+  if (typeof raw.serverUrl !== 'string' || typeof raw.token !== 'string') return 'invalid server details';
+  if (typeof raw.deviceId !== 'string' || !raw.deviceId) return 'missing device id';
+  return {
+    enabled: raw.enabled,
+    serverUrl: raw.serverUrl,
+    token: raw.token,
+    deviceId: raw.deviceId,
+  };
+};
+
+export const validateSyncState = (raw: unknown): SyncState | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (!isNonNegative(raw.seq) || !isNonNegative(raw.configRev)) return 'invalid revision';
+  if (!isRecordOf(raw.revs, isNonNegative)) return 'invalid revisions';
+  if (!isRecordOf(raw.pendingLogs, (v): v is string => typeof v === 'string')) return 'invalid pending entries';
+  if (raw.pendingConfig !== null && typeof raw.pendingConfig !== 'string') return 'invalid pending settings';
+  if (raw.lastSyncedAt !== null && typeof raw.lastSyncedAt !== 'string') return 'invalid last sync time';
+  return {
+    seq: raw.seq,
+    revs: raw.revs,
+    configRev: raw.configRev,
+    pendingLogs: raw.pendingLogs,
+    pendingConfig: raw.pendingConfig,
+    lastSyncedAt: raw.lastSyncedAt,
+  };
+};
+
+export const DEFAULT_REMINDERS: ReminderSettings = {
+  checkInEnabled: false,
+  checkInTime: '21:00',
+  patchChangeEnabled: false,
+  patchChangeTime: '08:00',
+  nearLimitEnabled: false,
+  nearLimitPercent: 80,
+};
+
+export const DEFAULT_SPENDING: SpendingSettings = {
+  currency: 'USD',
+  purchases: [],
+  baselineStart: null,
+  baselineEnd: null,
+};
+
+export const validateProfile = (raw: unknown): Profile | string => {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.id !== 'string' || !raw.id) return 'missing id';
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return 'missing name';
+  if (raw.pinHash !== undefined && typeof raw.pinHash !== 'string') return 'invalid PIN';
+  return { id: raw.id, name: raw.name, pinHash: raw.pinHash };
+};
+
+// Always returns at least the default profile, so existing single-user data keeps working.
+export const loadProfiles = (): ProfileRegistry => {
+  const raw = readJson(STORAGE_KEYS.profiles, []);
+  const profiles = isRecord(raw) && Array.isArray(raw.profiles)
+    ? raw.profiles.map(validateProfile).filter((p): p is Profile => typeof p !== 'string')
+    : [];
+  if (profiles.length === 0) profiles.push({ id: DEFAULT_PROFILE_ID, name: 'Me' });
+  const activeId = isRecord(raw) && typeof raw.activeId === 'string' && profiles.some(p => p.id === raw.activeId)
+    ? raw.activeId
+    : profiles[0].id;
+  return { activeId, profiles };
+};
+
+export const loadConfig = (issues: string[]): UserConfig | null => {
+  const raw = readJson(getProfileKey(STORAGE_KEYS.config), issues);
+  if (raw === undefined) return null;
+  const config = validateUserConfig(raw);
+  if (typeof config === 'string') {
+    quarantine(getProfileKey(STORAGE_KEYS.config));
+    issues.push(`Your settings were invalid (${config}), so onboarding will run again.`);
+    return null;
+  }
+  const dropped = (raw as { products: unknown[] }).products.length - config.products.length;
+  if (dropped > 0) issues.push(`${dropped} invalid ${dropped === 1 ? 'product was' : 'products were'} removed from your library.`);
+  return config;
+};
+
+// History kept in localStorage, or null once it has moved to IndexedDB (see db.ts).
+export const loadLocalLogs = (issues: string[]): DoseEvent[] | null => {
+  const raw = readJson(getProfileKey(STORAGE_KEYS.logs), issues);
+  if (raw === undefined) return null;
+  if (!Array.isArray(raw)) {
+    quarantine(getProfileKey(STORAGE_KEYS.logs));
+    issues.push('Your history was in an unknown format and was set aside.');
+    return null;
+  }
+  const logs = raw.map(validateDoseEvent).filter((l): l is DoseEvent => typeof l !== 'string');
+  if (logs.length < raw.length) {
+    const dropped = raw.length - logs.length;
+    // Keep the original so the skipped entries aren't lost when the cleaned list is saved.
+    localStorage.setItem(`${getProfileKey(STORAGE_KEYS.logs)}_corrupt_${Date.now()}`, JSON.stringify(raw));
+    issues.push(`${dropped} unreadable history ${dropped === 1 ? 'entry was' : 'entries were'} skipped.`);
+  }
+  return logs;
+};
+
+// Only used when IndexedDB is unavailable.
+export const loadLocalCravings = (issues: string[]): Craving[] => {
+  const raw = readJson(getProfileKey(STORAGE_KEYS.cravings), issues);
+  if (!Array.isArray(raw)) return [];
+  return raw.map(validateCraving).filter((c): c is Craving => typeof c !== 'string');
+};
+
+export const loadTaperPlan = (issues: string[]): TaperPlan | null => {
+  const raw = readJson(getProfileKey(STORAGE_KEYS.taperPlan), issues);
+  if (raw === undefined || raw === null) return null;
+  const plan = validateTaperPlan(raw);
+  if (typeof plan === 'string') {
+    quarantine(getProfileKey(STORAGE_KEYS.taperPlan));
+    issues.push(`Your taper plan was invalid (${plan}) and was removed.`);
+    return null;
+  }
+  return plan;
+};
+
+export const loadSpending = (issues: string[]): SpendingSettings => {
+  const raw = readJson(getProfileKey(STORAGE_KEYS.spending), issues);
+  if (raw === undefined) return DEFAULT_SPENDING;
+  const spending = validateSpending(raw);
+  if (typeof spending === 'string') {
+    quarantine(getProfileKey(STORAGE_KEYS.spending));
+    issues.push(`Your purchase history was invalid (${spending}) and was set aside.`);
+    return DEFAULT_SPENDING;
+  }
+  const dropped = (raw as { purchases: unknown[] }).purchases.length - spending.purchases.length;
+  if (dropped > 0) issues.push(`${dropped} invalid ${dropped === 1 ? 'purchase was' : 'purchases were'} removed.`);
+  return spending;
+};
+
+export const loadQuizResult = (issues: string[]): QuizResult | null => {
+  const raw = readJson(getProfileKey(STORAGE_KEYS.quiz), issues);
+  if (raw === undefined || raw === null) return null;
+  const result = validateQuizResult(raw);
+  if (typeof result === 'string') {
+    quarantine(getProfileKey(STORAGE_KEYS.quiz));
+    issues.push(`Your saved quiz results were invalid (${result}) and were set aside.`);
+    return null;
+  }
+  return result;
+};
+
+export const loadReminderSettings = (issues: string[]): ReminderSettings => {
+  const raw = readJson(getProfileKey(STORAGE_KEYS.reminders), issues);
+  if (raw === undefined) return DEFAULT_REMINDERS;
+  const reminders = validateReminderSettings(raw);
+  if (typeof reminders === 'string') {
+    quarantine(getProfileKey(STORAGE_KEYS.reminders));
+    issues.push(`Your reminder settings were invalid (${reminders}) and were reset.`);
+    return DEFAULT_REMINDERS;
+  }
+  return reminders;
+};
+
+// The day (YYYY-MM-DD) each reminder last fired, so reloads and other tabs don't repeat it.
+export const loadRemindersFired = (): Partial<Record<ReminderType, string>> => {
+  const raw = readJson(getProfileKey(STORAGE_KEYS.remindersFired), []);
+  return isRecordOf(raw, (v): v is string => typeof v === 'string') ? raw : {};
+};
+
+// A missing or unreadable value gets a fresh device id with sync off.
+export const loadSyncSettings = (issues: string[]): SyncSettings => {
+  const defaults: SyncSettings = { enabled: false, serverUrl: '', token: '', deviceId: crypto.randomUUID() };
+  const raw = readJson(getProfileKey(STORAGE_KEYS.sync), issues);
+  if (raw === undefined) return defaults;
+  const settings = validateSyncSettings(raw);
+  if (typeof settings === 'string') {
+    quarantine(getProfileKey(STORAGE_KEYS.sync));
+    issues.push(`Your sync settings were invalid (${settings}) and were reset.`);
+    return defaults;
+  }
+  return settings;
+};
+
+export const EMPTY_SYNC_STATE: SyncState = {
+  seq: 0,
+  revs: {},
+  configRev: 0,
+  pendingLogs: {},
+  pendingConfig: null,
+  lastSyncedAt: null,
+};
+
+// Losing this only means the next sync starts over; the server's copies win any resulting conflicts.
+export const loadSyncState = (): SyncState => {
+  const state = validateSyncState(readJson(getProfileKey(STORAGE_KEYS.syncState), []));
+  return typeof state === 'string' ? EMPTY_SYNC_STATE : state;
+};
+
+// Upgrades stored data to the current schema, then reads and validates settings. Never throws.
+// History is loaded separately and asynchronously from IndexedDB.
+export const loadState = (): LoadedState => {
+  const issues: string[] = [];
+  runMigrations(issues);
+  return {
+    config: loadConfig(issues),
+    taperPlan: loadTaperPlan(issues),
+    spending: loadSpending(issues),
+    quiz: loadQuizResult(issues),
+    reminders: loadReminderSettings(issues),
+    sync: loadSyncSettings(issues),
+    issues,
+  };
+};
+
+export const saveConfig = (config: UserConfig) => {
+  localStorage.setItem(getProfileKey(STORAGE_KEYS.config), JSON.stringify(config));
+};
+
+// Only used when IndexedDB is unavailable.
+export const saveLocalLogs = (logs: DoseEvent[]) => {
+  localStorage.setItem(getProfileKey(STORAGE_KEYS.logs), JSON.stringify(logs));
+};
+
+export const removeLocalLogs = () => {
+  localStorage.removeItem(getProfileKey(STORAGE_KEYS.logs));
+};
+
+export const saveLocalCravings = (cravings: Craving[]) => {
+  localStorage.setItem(getProfileKey(STORAGE_KEYS.cravings), JSON.stringify(cravings));
+};
+
+export const saveTaperPlan = (plan: TaperPlan | null) => {
+  if (plan) {
+    localStorage.setItem(getProfileKey(STORAGE_KEYS.taperPlan), JSON.stringify(plan));
+  } else {
+    localStorage.removeItem(getProfileKey(STORAGE_KEYS.taperPlan));
+  }
+};
+
+export const saveSpending = (spending: SpendingSettings) => {
+  localStorage.setItem(getProfileKey(STORAGE_KEYS.spending), JSON.stringify(spending));
+};
+
+export const saveQuizResult = (result: QuizResult | null) => {
+  if (result) {
+    localStorage.setItem(getProfileKey(STORAGE_KEYS.quiz), JSON.stringify(result));
+  } else {
+    localStorage.removeItem(getProfileKey(STORAGE_KEYS.quiz));
+  }
+};
+
+export const saveReminderSettings = (reminders: ReminderSettings) => {
+  localStorage.setItem(getProfileKey(STORAGE_KEYS.reminders), JSON.stringify(reminders));
+};
+
+export const saveRemindersFired = (fired: Partial<Record<ReminderType, string>>) => {
+  localStorage.setItem(getProfileKey(STORAGE_KEYS.remindersFired), JSON.stringify(fired));
+};
+
+export const saveSyncSettings = (settings: SyncSettings) => {
+  localStorage.setItem(getProfileKey(STORAGE_KEYS.sync), JSON.stringify(settings));
+};
+
+export const saveSyncState = (state: SyncState) => {
+  localStorage.setItem(getProfileKey(STORAGE_KEYS.syncState), JSON.stringify(state));
+};
+
+export const saveProfiles = (registry: ProfileRegistry) => {
+  localStorage.setItem(STORAGE_KEYS.profiles, JSON.stringify(registry));
+};
+
+// Removes a profile's settings; its history lives in IndexedDB (see deleteProfileDatabase).
+export const removeProfileData = (profileId: string) => {
+  PROFILE_KEYS.forEach(key => localStorage.removeItem(getProfileKey(key, profileId)));
+};
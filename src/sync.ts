@@ -0,0 +1,160 @@
+import { SYNC_CONFIG_ID, validateDoseEvent, validateUserConfig } from './core';
+import type { RecordChange, SyncChange, SyncRecord, SyncResult } from './core';
+import {
+  EMPTY_SYNC_STATE,
+  loadSyncState,
+  saveSyncState
+} from './storage';
+import type { DoseEvent, SyncSettings, SyncState, UserConfig } from './types';
+
+const PUSH_BATCH_SIZE = 500;
+// The edit time given to everything already on a device when sync is turned on, so where the
+// server already has a copy of the same entry or settings, the server's copy is kept.
+const BEFORE_SYNC = new Date(0).toISOString();
+
+export interface SyncOutcome {
+  logs: RecordChange<DoseEvent> | null; // changes from other devices to apply here
+  config: UserConfig | null; // newer settings from another device
+  issues: string[];
+}
+
+interface LogPage {
+  seq: number;
+  logs: SyncRecord<unknown>[];
+  more: boolean;
+}
+
+export const getPendingCount = (state: SyncState) =>
+  Object.keys(state.pendingLogs).length + (state.pendingConfig ? 1 : 0);
+
+// Queues entries added, edited or deleted on this device for the next sync.
+export const recordLocalLogChanges = (change: RecordChange<DoseEvent>, at = new Date()) => {
+  const state = loadSyncState();
+  const pendingLogs = { ...state.pendingLogs };
+  [...change.puts.map(log => log.id), ...change.deletes].forEach(id => {
+    pendingLogs[id] = at.toISOString();
+  });
+  saveSyncState({ ...state, pendingLogs });
+};
+
+export const recordLocalConfigChange = (at = new Date()) => {
+  saveSyncState({ ...loadSyncState(), pendingConfig: at.toISOString() });
+};
+
+// Starts over against a new server (or after sync was off), queueing everything on this device.
+export const resetSync = (logIds: string[]) => {
+  saveSyncState({
+    ...EMPTY_SYNC_STATE,
+    pendingLogs: Object.fromEntries(logIds.map(id => [id, BEFORE_SYNC])),
+    pendingConfig: BEFORE_SYNC,
+  });
+};
+
+const request = async <T>(settings: SyncSettings, method: string, path: string, body?: unknown): Promise<T> => {
+  // Relative to the server URL, so it can sit under a path on a reverse proxy.
+  const url = new URL(path, settings.serverUrl.replace(/\/?$/, '/'));
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `Bearer ${settings.token}`,
+      'Content-Type': 'application/json',
+      'X-Device-Id': settings.deviceId,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(data?.error || `Sync server responded with ${response.status}`);
+  return data as T;
+};
+
+// Sends this device's queued changes, then fetches everything changed elsewhere since the last
+// sync. Concurrent edits are settled by the server (see shouldApplyChange); entries edited here
+// while the sync was running are left for the next one. Rejects when the server can't be reached.
+export const syncNow = async (settings: SyncSettings, logs: DoseEvent[], config: UserConfig | null): Promise<SyncOutcome> => {
+  const start = loadSyncState();
+  const revs = { ...start.revs };
+  const incoming: SyncRecord<unknown>[] = [];
+  let configRev = start.configRev;
+  let incomingConfig: SyncRecord<unknown> | null = null;
+
+  const current = new Map(logs.map(log => [log.id, log]));
+  const changes: SyncChange<DoseEvent>[] = Object.entries(start.pendingLogs)
+    .map(([id, updatedAt]) => ({ id, baseRev: revs[id] ?? 0, updatedAt, deleted: !current.has(id), data: current.get(id) ?? null }))
+    // Entries added and deleted again before ever reaching the server.
+    .filter(change => !(change.deleted && change.baseRev === 0));
+
+  for (let i = 0; i < changes.length; i += PUSH_BATCH_SIZE) {
+    const { results } = await request<{ results: SyncResult<unknown>[] }>(
+      settings, 'POST', 'v1/logs', { changes: changes.slice(i, i + PUSH_BATCH_SIZE) }
+    );
+    results.forEach(result => {
+      if (result.status === 'applied') revs[result.record.id] = result.record.rev;
+      else incoming.push(result.record);
+    });
+  }
+
+  // Settings from before sync was turned on are only uploaded when the server has none yet.
+  const { config: serverConfig } = await request<{ config: SyncRecord<unknown> | null }>(settings, 'GET', 'v1/config');
+  if (start.pendingConfig && config && !(start.pendingConfig === BEFORE_SYNC && serverConfig)) {
+    const change: SyncChange<UserConfig> = { id: SYNC_CONFIG_ID, baseRev: configRev, updatedAt: start.pendingConfig, deleted: false, data: config };
+    const result = await request<SyncResult<unknown>>(settings, 'PUT', 'v1/config', change);
+    if (result.status === 'applied') configRev = result.record.rev;
+    else incomingConfig = result.record;
+  } else if (serverConfig && serverConfig.rev > configRev) {
+    incomingConfig = serverConfig;
+  }
+
+  let seq = start.seq;
+  for (let more = true; more;) {
+    const page = await request<LogPage>(settings, 'GET', `v1/logs?since=${seq}`);
+    incoming.push(...page.logs.filter(record => record.rev > (revs[record.id] ?? 0)));
+    ({ seq, more } = page);
+  }
+
+  // Anything queued since the sync started is newer than what was pushed, and stays queued.
+  const latest = loadSyncState();
+  const editedSince = (id: string) => id in latest.pendingLogs && latest.pendingLogs[id] !== start.pendingLogs[id];
+
+  const issues: string[] = [];
+  const puts = new Map<string, DoseEvent>();
+  const deletes = new Set<string>();
+  incoming.filter(record => !editedSince(record.id)).forEach(record => {
+    revs[record.id] = record.rev;
+    if (record.deleted) {
+      puts.delete(record.id);
+      if (current.has(record.id)) deletes.add(record.id);
+      return;
+    }
+    const log = validateDoseEvent(record.data);
+    if (typeof log === 'string') {
+      issues.push(`A synced entry was unreadable (${log}) and was skipped.`);
+      return;
+    }
+    deletes.delete(record.id);
+    puts.set(record.id, { ...log, id: record.id });
+  });
+
+  let syncedConfig: UserConfig | null = null;
+  const configEditedSince = latest.pendingConfig !== start.pendingConfig;
+  if (incomingConfig && !configEditedSince) {
+    const validated = validateUserConfig(incomingConfig.data);
+    if (typeof validated === 'string') issues.push(`Synced settings were unreadable (${validated}) and were skipped.`);
+    else syncedConfig = validated;
+    configRev = incomingConfig.rev;
+  }
+
+  saveSyncState({
+    seq,
+    revs,
+    configRev,
+    pendingLogs: Object.fromEntries(Object.entries(latest.pendingLogs).filter(([id]) => editedSince(id))),
+    pendingConfig: configEditedSince || !config ? latest.pendingConfig : null,
+    lastSyncedAt: new Date().toISOString(),
+  });
+
+  return {
+    logs: puts.size || deletes.size ? { puts: [...puts.values()], deletes: [...deletes] } : null,
+    config: syncedConfig,
+    issues,
+  };
+};
@@ -0,0 +1,158 @@
+export type NicotineSource = 'cigarettes' | 'pouches' | 'vape' | 'lozenge' | 'patch';
+export type PreferredUnit = 'cigs' | 'pouches' | 'puffs' | 'vape_cadence' | 'lozenge' | 'patch';
+
+export type NicotineType = 'salt' | 'freebase';
+export type VapeMeasure = 'puff' | 'pod' | 'ml';
+
+// E-liquid details for a vape, so puffs, finished pods and refills can all be converted to mg.
+export interface VapeProfile {
+  nicotineType: NicotineType;
+  mgPerMl: number;
+  podMl: number; // e-liquid in one pod or tank fill
+  puffsPerMl: number;
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  deliveryType: PreferredUnit;
+  strength: number; // mg nicotine per unit
+  absorptionRate: number; // fraction of strength absorbed
+  vapeProfile?: VapeProfile; // only for 'puffs' products; strength is then mg per puff of liquid
+}
+
+// The assumptions used to turn products into absorbed mg, either a named preset or 'Custom'.
+export interface AbsorptionModel {
+  name: string;
+  mgPerCig: number; // absorbed per cigarette
+  mgPerPouch3mg: number; // absorbed from a 3mg pouch
+  mgPerPouch6mg: number; // absorbed from a 6mg (or stronger, per 6mg) pouch
+  mgPerPuff: number;
+  puffsPerDevice: number; // puffs in one disposable
+  lozengeAbsorptionRate: number;
+  patchAbsorptionRate: number;
+}
+
+export interface UserConfig {
+  source: NicotineSource;
+  unit: PreferredUnit;
+  products: Product[];
+  absorptionModel: AbsorptionModel;
+  dailyLimitMg: number; // days above this are flagged, and it's the target without a taper plan
+  dayStartHour: number; // 0-23; entries before this hour count towards the previous day
+}
+
+export interface DoseEvent {
+  id: string;
+  timestamp: string; // ISO 8601, UTC
+  utcOffset?: number; // minutes east of UTC where the entry was logged; unset for older entries
+  unitType: PreferredUnit;
+  quantity: number;
+  strength: number; // mg nicotine per unit at the time of logging
+  absorptionRate: number; // fraction of strength absorbed
+  productId?: string; // unset for entries migrated from before the product library
+  productName?: string;
+  absorptionModel?: string; // name of the model in use when logged
+  vapeMeasure?: VapeMeasure; // set for vape profile logs; quantity and strength are per this measure
+  puffsPerUnit?: number; // puffs one logged pod or mL stands for
+}
+
+export type TaperCurve = 'linear' | 'percentage' | 'step';
+
+export interface TaperPlan {
+  startDate: string; // YYYY-MM-DD
+  startMg: number;
+  targetDate: string; // YYYY-MM-DD
+  targetMg: number;
+  curve: TaperCurve;
+  weeklyReductionPercent: number; // used by 'percentage'
+  stepDays: number; // used by 'step'
+}
+
+export type CravingTrigger = 'coffee' | 'stress' | 'after_meals' | 'alcohol' | 'driving' | 'custom';
+export type CravingOutcome = 'used' | 'resisted';
+
+export interface Craving {
+  id: string;
+  timestamp: string; // ISO 8601
+  intensity: number; // 1-5
+  trigger: CravingTrigger;
+  customTrigger?: string; // set when trigger is 'custom'
+  note?: string;
+  outcome: CravingOutcome;
+}
+
+export interface Purchase {
+  id: string;
+  productId: string;
+  date: string; // YYYY-MM-DD
+  price: number; // per pack, in SpendingSettings.currency
+  unitsPerPack: number; // logged units in one pack, e.g. 20 pouches in a can
+}
+
+export interface SpendingSettings {
+  currency: string; // ISO 4217 code
+  purchases: Purchase[];
+  baselineStart: string | null; // YYYY-MM-DD; both unset means the first tracked week
+  baselineEnd: string | null;
+}
+
+export type ReminderType = 'checkIn' | 'patchChange' | 'nearLimit';
+
+export interface ReminderSettings {
+  checkInEnabled: boolean;
+  checkInTime: string; // HH:mm
+  patchChangeEnabled: boolean;
+  patchChangeTime: string; // HH:mm
+  nearLimitEnabled: boolean;
+  nearLimitPercent: number; // of today's target, 1-100
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  pinHash?: string; // SHA-256 of the profile id and PIN; keeps others out, doesn't encrypt data
+}
+
+export interface ProfileRegistry {
+  activeId: string;
+  profiles: Profile[];
+}
+
+export type TimeToFirstUse = 'within5' | 'within30' | 'within60' | 'after60'; // minutes after waking
+
+// Fagerström Test for Nicotine Dependence questions, asked about the user's main product.
+export interface DependenceAnswers {
+  timeToFirstUse: TimeToFirstUse;
+  dailyQuantity: number; // units of the quiz product on a typical day
+  hardToRefrain: boolean; // in places where it's not allowed
+  hateToGiveUpFirst: boolean; // the first of the morning is the hardest to give up
+  moreInMorning: boolean; // uses more in the first hours after waking
+  useWhenIll: boolean; // uses even when ill in bed most of the day
+}
+
+export interface QuizResult {
+  completedAt: string; // ISO 8601
+  answers: DependenceAnswers;
+  score: number; // 0-10
+  baselineMg: number; // absorbed mg on a typical day
+  baselineFromLogs: boolean; // measured from a logged week rather than estimated from the answers
+}
+
+// Connection to an optional self-hosted sync server (see server/), per profile.
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string;
+  token: string;
+  deviceId: string; // identifies this browser to the server
+}
+
+// What this device knows of the server, and its changes not yet sent.
+export interface SyncState {
+  seq: number; // last server change pulled
+  revs: Record<string, number>; // server revision of each synced entry
+  configRev: number;
+  pendingLogs: Record<string, string>; // entry id -> when it was changed here (ISO 8601)
+  pendingConfig: string | null; // when settings were changed here (ISO 8601)
+  lastSyncedAt: string | null; // ISO 8601
+}
@@ -1,7 +1,41 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    VitePWA({
+      // The app asks before activating a new build so an in-progress entry isn't lost.
+      registerType: 'prompt',
+      includeAssets: ['favicon.svg', 'apple-touch-icon.png'],
+      manifest: {
+        name: 'NicTrack',
+        short_name: 'NicTrack',
+        description: 'Track your daily nicotine journey',
+        theme_color: '#2563eb',
+        background_color: '#111827',
+        display: 'standalone',
+        start_url: '/',
+        icons: [
+          { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+          { src: 'maskable-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+        // Each shortcut logs one unit of the first saved product of that delivery type.
+        shortcuts: [
+          { name: '+1 pouch', url: '/?add=pouches', icons: [{ src: 'pwa-192x192.png', sizes: '192x192' }] },
+          { name: '+1 cigarette', url: '/?add=cigs', icons: [{ src: 'pwa-192x192.png', sizes: '192x192' }] },
+          { name: '+1 lozenge', url: '/?add=lozenge', icons: [{ src: 'pwa-192x192.png', sizes: '192x192' }] },
+          { name: '+1 patch', url: '/?add=patch', icons: [{ src: 'pwa-192x192.png', sizes: '192x192' }] },
+        ],
+      },
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,svg,png}'],
+        navigateFallback: '/index.html',
+        importScripts: ['notification-click.js'],
+      },
+    }),
+  ],
 })